@@ -0,0 +1,368 @@
+import { Field } from "o1js";
+import { memoizedLagrangeBasis } from "../message-extensions/fast-multilinear-lagrange.ts";
+import { expectObject, getRequiredBits } from "../util.ts";
+
+/**
+ * Layered arithmetic circuits (Thaler section 4.6)
+ *
+ * A layered circuit of depth d has layers numbered from 0 for the outputs to d for the inputs, and every gate of
+ * layer i takes its two inputs from layer i+1. Layer i with S_i gates is indexed by k_i = max(1, ceil(log2 S_i))
+ * bits, and its wiring is described by the predicates add_i, mult_i: {0,1}^(k_i + 2k_{i+1}) -> {0,1}.
+ *
+ * JSON circuit files have the form
+ *   {
+ *     "version": 1,
+ *     "inputSize": 4,
+ *     "layers": [
+ *       [{ "type": "add", "left": 0, "right": 1 }],
+ *       [{ "type": "mul", "left": 0, "right": 1 }, { "type": "mul", "left": 2, "right": 3 }]
+ *     ]
+ *   }
+ * with layers listed from the output layer down to layer d-1.
+ */
+
+export const CIRCUIT_FORMAT_VERSION = 1;
+
+/**
+ * Gate of a layered circuit, with fan-in 2
+ * left and right are indices of gates in the next layer, closer to the inputs
+ */
+export interface Gate {
+  type: "add" | "mul";
+  left: number;
+  right: number;
+}
+
+/**
+ * Layered arithmetic circuit of depth d
+ */
+export interface LayeredCircuit {
+  // layers[i] holds the gates of layer i, for 0 <= i < d
+  layers: Gate[][];
+  // number of inputs, the size of layer d
+  inputSize: number;
+}
+
+/**
+ * Evaluations of the multilinear extensions of the wiring predicates of a layer at a single point
+ */
+export interface WiringPredicateEvaluations {
+  add: Field;
+  mult: Field;
+}
+
+/**
+ * Builder for layered circuits, where each gate is added to an explicitly numbered layer
+ *
+ *   const builder = new LayeredCircuitBuilder(2, 4);
+ *   builder.mul(1, 0, 1); // gate 0 of layer 1 is x_0 · x_1
+ *   builder.mul(1, 2, 3); // gate 1 of layer 1 is x_2 · x_3
+ *   builder.add(0, 0, 1); // the output is x_0 · x_1 + x_2 · x_3
+ *   const circuit = builder.build();
+ */
+export class LayeredCircuitBuilder {
+  // depth of the circuit, the index of the input layer
+  depth: number;
+
+  // number of inputs
+  inputSize: number;
+
+  // gates added to each layer so far
+  private layers: Gate[][];
+
+  /**
+   * Creates an instance of the LayeredCircuitBuilder.
+   *
+   * @param depth - The number of layers of gates.
+   * @param inputSize - The number of inputs to the circuit.
+   */
+  constructor(depth: number, inputSize: number) {
+    if (!Number.isInteger(depth) || depth < 1)
+      throw Error(`Depth must be a positive integer, received ${depth}.`);
+    this.depth = depth;
+    this.inputSize = inputSize;
+    this.layers = Array.from({ length: depth }, () => []);
+  }
+
+  /**
+   * Adds a gate to a layer
+   *
+   * @param layer - The layer of the gate, 0 <= layer < d.
+   * @param type - The type of the gate.
+   * @param left - The index of the left input in layer+1.
+   * @param right - The index of the right input in layer+1.
+   * @returns The index of the new gate within its layer.
+   */
+  addGate(
+    layer: number,
+    type: Gate["type"],
+    left: number,
+    right: number,
+  ): number {
+    if (!Number.isInteger(layer) || layer < 0 || layer >= this.depth)
+      throw Error(
+        `Layer ${layer} does not exist in a circuit of depth ${this.depth}.`,
+      );
+    return this.layers[layer].push({ type, left, right }) - 1;
+  }
+
+  /**
+   * Adds an addition gate to a layer
+   *
+   * @returns The index of the new gate within its layer.
+   */
+  add(layer: number, left: number, right: number): number {
+    return this.addGate(layer, "add", left, right);
+  }
+
+  /**
+   * Adds a multiplication gate to a layer
+   *
+   * @returns The index of the new gate within its layer.
+   */
+  mul(layer: number, left: number, right: number): number {
+    return this.addGate(layer, "mul", left, right);
+  }
+
+  /**
+   * Builds the circuit, validating its wiring
+   *
+   * @returns The circuit.
+   * @throws Error if a layer is empty or a gate refers to a gate that does not exist.
+   */
+  build(): LayeredCircuit {
+    return createLayeredCircuit(
+      this.layers.map((layer) => layer.map((gate) => ({ ...gate }))),
+      this.inputSize,
+    );
+  }
+}
+
+/**
+ * Creates a layered circuit, validating that every gate refers to gates of the next layer
+ *
+ * @param layers - The gates of layers 0, ..., d-1, starting from the output layer.
+ * @param inputSize - The number of inputs to the circuit.
+ * @returns The circuit.
+ * @throws Error if the circuit is empty or a gate refers to a gate that does not exist.
+ */
+export function createLayeredCircuit(
+  layers: Gate[][],
+  inputSize: number,
+): LayeredCircuit {
+  if (layers.length === 0)
+    throw Error("A circuit must have at least one layer of gates.");
+  if (!Number.isInteger(inputSize) || inputSize < 1)
+    throw Error(
+      `Number of inputs must be a positive integer, received ${inputSize}.`,
+    );
+
+  layers.forEach((layer, i) => {
+    if (layer.length === 0) throw Error(`Layer ${i} has no gates.`);
+  });
+  layers.forEach((layer, i) => {
+    const nextSize = i + 1 < layers.length ? layers[i + 1].length : inputSize;
+    layer.forEach((gate, a) => {
+      if (gate.type !== "add" && gate.type !== "mul")
+        throw Error(
+          `Gate ${a} of layer ${i} has unknown type "${gate.type}", expected "add" or "mul".`,
+        );
+      if (
+        ![gate.left, gate.right].every(
+          (w) => Number.isInteger(w) && w >= 0 && w < nextSize,
+        )
+      )
+        throw Error(
+          `Gate ${a} of layer ${i} has inputs (${gate.left}, ${gate.right}) outside 0..${nextSize - 1}.`,
+        );
+    });
+  });
+
+  return { layers, inputSize };
+}
+
+/**
+ * Evaluates a circuit gate by gate
+ *
+ * @param circuit - The circuit.
+ * @param inputs - The values of the input layer.
+ * @returns The values W_0, ..., W_d of every layer, starting from the outputs and ending with the inputs.
+ * @throws Error if the number of inputs does not match the circuit.
+ */
+export function evaluateLayeredCircuit(
+  circuit: LayeredCircuit,
+  inputs: Field[],
+): Field[][] {
+  if (inputs.length !== circuit.inputSize)
+    throw Error(
+      `Circuit expects ${circuit.inputSize} inputs but received ${inputs.length}.`,
+    );
+
+  const values: Field[][] = [inputs];
+  for (let i = circuit.layers.length - 1; i >= 0; i--) {
+    const next = values[0];
+    values.unshift(
+      circuit.layers[i].map(({ type, left, right }) =>
+        type === "add"
+          ? next[left].add(next[right])
+          : next[left].mul(next[right]),
+      ),
+    );
+  }
+  return values;
+}
+
+/**
+ * Computes the number of variables k_i needed to index the gates of layer i, its size is padded up to 2^k_i
+ *
+ * @param circuit - The circuit.
+ * @param i - The layer, from 0 for the outputs to d for the inputs.
+ * @returns The number of bits used to encode a gate of layer i, at least 1.
+ */
+export function getLayerBits(circuit: LayeredCircuit, i: number): number {
+  const size =
+    i === circuit.layers.length ? circuit.inputSize : circuit.layers[i].length;
+  return Math.max(1, getRequiredBits(size));
+}
+
+/**
+ * Computes the point value representations of the wiring predicates add_i, mult_i: {0,1}^(k_i + 2k_{i+1}) -> {0,1}
+ * add_i(a, b, c) = 1 if and only if gate a of layer i is an addition gate with inputs b and c of layer i+1,
+ * and similarly for mult_i. The entry for (a, b, c) is at index a · 2^(2k_{i+1}) + b · 2^k_{i+1} + c
+ * The tables have 2^(k_i + 2k_{i+1}) entries, so this is only practical for small circuits.
+ *
+ * @param circuit - The circuit.
+ * @param i - The layer, 0 <= i < d.
+ * @returns The evaluations of add_i and mult_i.
+ */
+export function getWiringPredicateTables(
+  circuit: LayeredCircuit,
+  i: number,
+): { add: Field[]; mult: Field[] } {
+  const size =
+    2 ** (getLayerBits(circuit, i) + 2 * getLayerBits(circuit, i + 1));
+  const nextSize = 2 ** getLayerBits(circuit, i + 1);
+  const add = Array.from({ length: size }, () => Field(0));
+  const mult = Array.from({ length: size }, () => Field(0));
+  circuit.layers[i].forEach(({ type, left, right }, a) => {
+    const index = (a * nextSize + left) * nextSize + right;
+    if (type === "add") add[index] = Field(1);
+    else mult[index] = Field(1);
+  });
+  return { add, mult };
+}
+
+/**
+ * Evaluates the multilinear extensions add~_i and mult~_i at a point (z, x, y) in F^(k_i + 2k_{i+1})
+ *
+ * Since add_i is 1 only at the gates of layer i,
+ *   add~_i(z, x, y) = sum over addition gates (a, b, c) of χ_a(z) · χ_b(x) · χ_c(y)
+ * and similarly for mult~_i. The Lagrange basis values χ_w(z), χ_w(x) and χ_w(y) are computed for all w at once
+ * in O(2^k_i + 2^k_{i+1}) time, after which each gate costs O(1), for O(S_i + S_{i+1}) time in total rather than
+ * the O(2^(k_i + 2k_{i+1})) time taken by interpolating the tables from `getWiringPredicateTables`.
+ *
+ * @param circuit - The circuit.
+ * @param i - The layer, 0 <= i < d.
+ * @param point - The point (z, x, y) at which to evaluate.
+ * @returns The values add~_i(z, x, y) and mult~_i(z, x, y).
+ * @throws Error if the point does not have k_i + 2k_{i+1} entries.
+ */
+export function evaluateWiringPredicates(
+  circuit: LayeredCircuit,
+  i: number,
+  point: Field[],
+): WiringPredicateEvaluations {
+  const k = getLayerBits(circuit, i);
+  const kNext = getLayerBits(circuit, i + 1);
+  if (point.length !== k + 2 * kNext)
+    throw Error(
+      `Incorrect input vector length, expected ${k + 2 * kNext} variables but received ${point.length}`,
+    );
+
+  const z = memoizedLagrangeBasis(point.slice(0, k));
+  const x = memoizedLagrangeBasis(point.slice(k, k + kNext));
+  const y = memoizedLagrangeBasis(point.slice(k + kNext));
+
+  let add = Field(0);
+  let mult = Field(0);
+  circuit.layers[i].forEach(({ type, left, right }, a) => {
+    const term = z[a].mul(x[left]).mul(y[right]);
+    if (type === "add") add = add.add(term);
+    else mult = mult.add(term);
+  });
+  return { add, mult };
+}
+
+/**
+ * Encodes a circuit as a JSON string
+ *
+ * @param circuit - The circuit.
+ * @returns The JSON encoding of the circuit.
+ */
+export function circuitToJSON(circuit: LayeredCircuit): string {
+  return JSON.stringify({
+    version: CIRCUIT_FORMAT_VERSION,
+    inputSize: circuit.inputSize,
+    layers: circuit.layers.map((layer) =>
+      layer.map(({ type, left, right }) => ({ type, left, right })),
+    ),
+  });
+}
+
+/**
+ * Decodes a circuit from its JSON encoding
+ *
+ * @param json - The JSON encoding of a circuit.
+ * @returns The circuit.
+ * @throws Error if the JSON is malformed or does not describe a valid circuit.
+ */
+export function circuitFromJSON(json: string): LayeredCircuit {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw Error("Invalid circuit: not valid JSON.");
+  }
+
+  const object = expectObject(parsed, "circuit", "circuit", [
+    "version",
+    "inputSize",
+    "layers",
+  ]);
+  if (object.version !== CIRCUIT_FORMAT_VERSION)
+    throw Error(
+      `Invalid circuit: unsupported version ${JSON.stringify(object.version)}, expected ${CIRCUIT_FORMAT_VERSION}.`,
+    );
+  if (!Array.isArray(object.layers))
+    throw Error("Invalid circuit: layers must be an array.");
+
+  const layers = object.layers.map((layer: unknown, i: number) => {
+    if (!Array.isArray(layer))
+      throw Error(`Invalid circuit: layer ${i} must be an array.`);
+    return layer.map((value: unknown, a: number) => {
+      const gate = expectObject(value, "circuit", `gate ${a} of layer ${i}`, [
+        "type",
+        "left",
+        "right",
+      ]);
+      const { type, left, right } = gate;
+      if (type !== "add" && type !== "mul")
+        throw Error(
+          `Invalid circuit: Gate ${a} of layer ${i} has unknown type ${JSON.stringify(type)}, expected "add" or "mul".`,
+        );
+      if (typeof left !== "number" || typeof right !== "number")
+        throw Error(
+          `Invalid circuit: inputs of gate ${a} of layer ${i} must be numbers.`,
+        );
+      // the range of the inputs is checked by createLayeredCircuit
+      const parsedGate: Gate = { type, left, right };
+      return parsedGate;
+    });
+  });
+
+  try {
+    return createLayeredCircuit(layers, object.inputSize as number);
+  } catch (error) {
+    throw Error(`Invalid circuit: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,416 @@
+import { Field } from "o1js";
+import {
+  evaluateLayeredCircuit,
+  evaluateWiringPredicates,
+  getLayerBits,
+  LayeredCircuit,
+} from "../circuits/layered-circuit.ts";
+import {
+  OracleProver,
+  OracleVerifier,
+  PolynomialOracle,
+} from "../sum-check/oracle-sum-check.ts";
+import { getMultilinearLDE } from "../sum-check/multilinear-lagrange.ts";
+import { getUnivariateLDE } from "../sum-check/univariate-lagrange.ts";
+import {
+  ChallengeSource,
+  getSoundnessError,
+  RandomChallengeSource,
+} from "../sum-check/challenge-source.ts";
+
+/**
+ * GKR protocol for layered arithmetic circuits (Thaler section 4.6)
+ *
+ * Let W_i: {0,1}^k_i -> F map the binary encoding of a gate of layer i to its value. The verifier starts from a claim
+ * m_0 = W~_0(r_0) about the multilinear extension of the claimed outputs at a random point r_0. In iteration i,
+ * a claim m_i = W~_i(r_i) is reduced to a claim about W~_{i+1} by running sum check on
+ *   f_i(b, c) = add~_i(r_i, b, c) · (W~_{i+1}(b) + W~_{i+1}(c)) + mult~_i(r_i, b, c) · W~_{i+1}(b) · W~_{i+1}(c)
+ * a 2k_{i+1}-variate polynomial of degree 2 in each variable whose sum over {0,1}^(2k_{i+1}) is W~_i(r_i).
+ *
+ * Sum check ends at a random point (b*, c*) where the verifier needs both W~_{i+1}(b*) and W~_{i+1}(c*).
+ * The two claims are reduced to one by restricting W~_{i+1} to the line ℓ(t) = b* + t · (c* - b*): the prover sends
+ * q(t) = W~_{i+1}(ℓ(t)), a polynomial of degree k_{i+1}, the verifier checks f_i(b*, c*) using q(0) and q(1), then
+ * picks a random r* and continues with the claim m_{i+1} = q(r*) about the point r_{i+1} = ℓ(r*).
+ *
+ * After the last iteration the verifier checks m_d = W~_d(r_d) by evaluating the multilinear extension of the inputs.
+ */
+
+/**
+ * GKR prover
+ *
+ * holds the value of every gate of the circuit, and for each layer runs sum check on f_i
+ * followed by the line restriction of W~_{i+1}
+ */
+export class GKRProver {
+  // the circuit being evaluated
+  circuit: LayeredCircuit;
+
+  // values[i] holds the values of the gates of layer i, padded with zeroes to 2^k_i entries
+  private values: Field[][];
+
+  // the layer whose sum check is currently running
+  private layer = -1;
+
+  // sum check prover for f_i in the current layer
+  private sumCheck?: OracleProver;
+
+  /**
+   * Creates an instance of the GKRProver.
+   *
+   * @param circuit - The circuit.
+   * @param values - The values W_0, ..., W_d of every layer as returned by `evaluateLayeredCircuit`.
+   * @throws Error if the values do not match the layers of the circuit.
+   */
+  constructor(circuit: LayeredCircuit, values: Field[][]) {
+    const d = circuit.layers.length;
+    if (values.length !== d + 1)
+      throw Error(
+        `Expected values for ${d + 1} layers but received ${values.length}.`,
+      );
+    values.forEach((layer, i) => {
+      const size = i === d ? circuit.inputSize : circuit.layers[i].length;
+      if (layer.length !== size)
+        throw Error(
+          `Layer ${i} has ${size} gates but received ${layer.length} values.`,
+        );
+    });
+
+    this.circuit = circuit;
+    this.values = values.map((layer, i) =>
+      padLayer(layer, getLayerBits(circuit, i)),
+    );
+  }
+
+  /**
+   * Gets the claimed outputs of the circuit
+   *
+   * @returns The values of the output layer.
+   */
+  getOutputs(): Field[] {
+    return this.values[0].slice(0, this.circuit.layers[0].length);
+  }
+
+  /**
+   * Starts the sum check for the next layer i on the claim about W~_i(r_i)
+   *
+   * @param r_i - The point in F^k_i chosen by the verifier.
+   * @returns The number of sum check rounds, 2k_{i+1}.
+   */
+  startLayer(r_i: Field[]): number {
+    const i = this.layer + 1;
+    if (i >= this.circuit.layers.length)
+      throw Error(
+        `The circuit has ${this.circuit.layers.length} layers of gates, there is no layer ${i}.`,
+      );
+    this.layer = i;
+
+    const next = this.values[i + 1];
+    const f: PolynomialOracle = (x) => {
+      const k = x.length / 2;
+      const [w_b, w_c] = [
+        getMultilinearLDE(next, x.slice(0, k)),
+        getMultilinearLDE(next, x.slice(k)),
+      ];
+      const { add, mult } = evaluateWiringPredicates(this.circuit, i, [
+        ...r_i,
+        ...x,
+      ]);
+      return add.mul(w_b.add(w_c)).add(mult.mul(w_b).mul(w_c));
+    };
+
+    const v = 2 * getLayerBits(this.circuit, i + 1);
+    this.sumCheck = new OracleProver(
+      f,
+      Array.from({ length: v }, () => 2),
+    );
+    return v;
+  }
+
+  /**
+   * Computes the univariate polynomial g_j for the current round j of the sum check in the current layer
+   *
+   * @param r_prev - The j-1th value of r provided by the Verifier (should be undefined in the first round)
+   * @returns The point-value representation of g_j at the points 0, 1, 2.
+   */
+  getRoundJPolynomial(r_prev?: Field): Field[] {
+    if (this.sumCheck === undefined)
+      throw Error("A layer must be started before running sum check.");
+    return this.sumCheck.getRoundJPolynomial(r_prev);
+  }
+
+  /**
+   * Computes the restriction q(t) = W~_{i+1}(b* + t · (c* - b*)) to the line through the sum check point (b*, c*)
+   *
+   * @param r_last - The last sum check challenge provided by the Verifier.
+   * @returns The point-value representation of q at the points 0, 1, ..., k_{i+1}.
+   */
+  getLineRestriction(r_last: Field): Field[] {
+    if (this.sumCheck === undefined)
+      throw Error("A layer must be started before running sum check.");
+    const [b, c] = splitPoint([...this.sumCheck.r, r_last]);
+    const next = this.values[this.layer + 1];
+
+    // q has degree at most k_{i+1} since each coordinate of the line is linear in t
+    return Array.from({ length: b.length + 1 }, (_, t) =>
+      getMultilinearLDE(next, getPointOnLine(b, c, Field(t))),
+    );
+  }
+}
+
+/**
+ * GKR verifier
+ *
+ * holds the circuit, its inputs and the claimed outputs, and checks the prover's messages
+ * layer by layer until a claim about the inputs is reached
+ */
+export class GKRVerifier {
+  // the circuit being evaluated
+  circuit: LayeredCircuit;
+
+  // inputs padded with zeroes to 2^k_d entries
+  private inputs: Field[];
+
+  // claimed outputs padded with zeroes to 2^k_0 entries
+  private outputs: Field[];
+
+  // the layer whose sum check is currently running, d once all layers have been verified
+  private layer = -1;
+
+  // the current claim m_i = W~_i(r_i)
+  private point: Field[] = [];
+  private claim = Field(0);
+
+  // sum check verifier for f_i in the current layer, along with the challenges it has generated
+  private sumCheck?: OracleVerifier;
+  private challenges: Field[] = [];
+
+  // source of the random points and challenges, shared with the sum check in each layer
+  private challengeSource: ChallengeSource;
+
+  /**
+   * Creates an instance of the GKRVerifier.
+   *
+   * @param circuit - The circuit.
+   * @param inputs - The inputs to the circuit.
+   * @param outputs - The outputs claimed by the prover.
+   * @param challengeSource - The source of the random challenges, uniform over the whole field by default.
+   * @throws Error if the inputs or outputs do not match the circuit.
+   */
+  constructor(
+    circuit: LayeredCircuit,
+    inputs: Field[],
+    outputs: Field[],
+    challengeSource: ChallengeSource = new RandomChallengeSource(),
+  ) {
+    const d = circuit.layers.length;
+    if (inputs.length !== circuit.inputSize)
+      throw Error(
+        `Circuit expects ${circuit.inputSize} inputs but received ${inputs.length}.`,
+      );
+    if (outputs.length !== circuit.layers[0].length)
+      throw Error(
+        `Circuit has ${circuit.layers[0].length} outputs but received ${outputs.length}.`,
+      );
+
+    this.circuit = circuit;
+    this.inputs = padLayer(inputs, getLayerBits(circuit, d));
+    this.outputs = padLayer(outputs, getLayerBits(circuit, 0));
+    this.challengeSource = challengeSource;
+  }
+
+  /**
+   * Picks the random point r_0 and evaluates the multilinear extension of the claimed outputs there
+   *
+   * @returns The point r_0 for the prover's first claim.
+   */
+  getOutputPoint(): Field[] {
+    if (this.layer !== -1)
+      throw Error("The output point has already been chosen.");
+    this.point = Array.from({ length: getLayerBits(this.circuit, 0) }, () =>
+      this.getRandomFieldElement(),
+    );
+    this.claim = getMultilinearLDE(this.outputs, this.point);
+    this.startLayer();
+    return this.point;
+  }
+
+  /**
+   * Verifies the univariate polynomial g_j for the current round j of the sum check in the current layer
+   *
+   * @param g_j - The point-value representation of g_j at the points 0, 1, 2.
+   * @returns A random field element r_j for the next round.
+   */
+  verifyRoundJPolynomial(g_j: Field[]): Field {
+    if (this.sumCheck === undefined)
+      throw Error("The output point must be chosen before running sum check.");
+    const r_j = this.sumCheck.verifyRoundJPolynomial(g_j);
+    this.challenges.push(r_j);
+    return r_j;
+  }
+
+  /**
+   * Verifies the line restriction q sent at the end of the sum check in layer i
+   * Checks f_i(b*, c*) = g_v(r_v) using W~_{i+1}(b*) = q(0) and W~_{i+1}(c*) = q(1), then reduces the claim
+   * to m_{i+1} = q(r*) at the point r_{i+1} = b* + r* · (c* - b*) for a random r*
+   *
+   * @param q - The point-value representation of q at the points 0, 1, ..., k_{i+1}.
+   * @returns The point r_{i+1} for the prover's next claim.
+   */
+  verifyLineRestriction(q: Field[]): Field[] {
+    if (this.sumCheck === undefined)
+      throw Error("The output point must be chosen before running sum check.");
+    const k = getLayerBits(this.circuit, this.layer + 1);
+    if (q.length === 0 || q.length > k + 1)
+      throw Error(
+        `Line restriction sent in layer ${this.layer} has length ${q.length}. Expected length to be between 1 and ${k + 1} since W~_${this.layer + 1} has ${k} variables.`,
+      );
+
+    // the verifier evaluates the wiring predicates itself and trusts q only for the values of W~_{i+1}
+    const [w_b, w_c] = [
+      getUnivariateLDE(q, Field(0)),
+      getUnivariateLDE(q, Field(1)),
+    ];
+    this.sumCheck.verifyOracleQueryOfG((x) => {
+      const { add, mult } = evaluateWiringPredicates(this.circuit, this.layer, [
+        ...this.point,
+        ...x,
+      ]);
+      return add.mul(w_b.add(w_c)).add(mult.mul(w_b).mul(w_c));
+    });
+
+    const [b, c] = splitPoint(this.challenges);
+    const r = this.getRandomFieldElement();
+    this.point = getPointOnLine(b, c, r);
+    this.claim = getUnivariateLDE(q, r);
+    this.startLayer();
+    return this.point;
+  }
+
+  /**
+   * Verifies the final claim m_d = W~_d(r_d) against the multilinear extension of the inputs
+   * To be run after the line restriction of the last layer has been verified
+   */
+  verifyInputs() {
+    if (this.layer !== this.circuit.layers.length)
+      throw Error(
+        `All ${this.circuit.layers.length} layers must be verified before checking the inputs.`,
+      );
+    if (
+      !getMultilinearLDE(this.inputs, this.point).equals(this.claim).toBoolean()
+    )
+      throw Error(`m_d != W~_d(r_d), the claim about the inputs is incorrect.`);
+  }
+
+  /**
+   * Computes the probability that the verifier accepts incorrect outputs
+   * Sums the error of the random output point, k_0/|S|, and for each layer i the error of the sum check over
+   * 2k_{i+1} variables of degree 2, 4k_{i+1}/|S|, and of the line restriction of degree k_{i+1}, k_{i+1}/|S|.
+   *
+   * @returns The soundness error for the configured challenge space.
+   */
+  getSoundnessError(): number {
+    const degrees = [getLayerBits(this.circuit, 0)];
+    for (let i = 1; i <= this.circuit.layers.length; i++)
+      degrees.push(5 * getLayerBits(this.circuit, i));
+    return getSoundnessError(degrees, this.challengeSource.size);
+  }
+
+  getRandomFieldElement(): Field {
+    return this.challengeSource.next();
+  }
+
+  /**
+   * Moves on to the next layer, starting a sum check on the current claim if there are layers left
+   */
+  private startLayer() {
+    this.layer++;
+    this.challenges = [];
+    this.sumCheck =
+      this.layer < this.circuit.layers.length
+        ? new OracleVerifier(
+            this.claim,
+            Array.from(
+              { length: 2 * getLayerBits(this.circuit, this.layer + 1) },
+              () => 2,
+            ),
+            this.challengeSource,
+          )
+        : undefined;
+  }
+}
+
+/**
+ * Runs the GKR protocol between the prover and verifier
+ *
+ * @param circuit - The circuit.
+ * @param inputs - The inputs to the circuit, known to the verifier.
+ * @param values - The gate values held by the prover, computed honestly if not supplied.
+ * @param challengeSource - The source of the verifier's random challenges.
+ * @returns The verified outputs of the circuit.
+ * @throws Error if the verifier rejects.
+ */
+export function proveCircuitEvaluation(
+  circuit: LayeredCircuit,
+  inputs: Field[],
+  values?: Field[][],
+  challengeSource?: ChallengeSource,
+): Field[] {
+  const prover = new GKRProver(
+    circuit,
+    values ?? evaluateLayeredCircuit(circuit, inputs),
+  );
+  const outputs = prover.getOutputs();
+  const verifier = new GKRVerifier(circuit, inputs, outputs, challengeSource);
+
+  let point = verifier.getOutputPoint();
+  for (let i = 0; i < circuit.layers.length; i++) {
+    const v = prover.startLayer(point);
+    let r_j = undefined;
+    for (let j = 1; j <= v; j++) {
+      const g_j = prover.getRoundJPolynomial(r_j);
+      r_j = verifier.verifyRoundJPolynomial(g_j);
+    }
+    point = verifier.verifyLineRestriction(
+      prover.getLineRestriction(r_j as Field),
+    );
+  }
+  verifier.verifyInputs();
+
+  return outputs;
+}
+
+/**
+ * Right-pads the values of a layer with zeroes so that they specify all 2^k evaluations of W_i
+ *
+ * @param values - The values of the gates of the layer.
+ * @param k - The number of variables of W_i.
+ * @returns The 2^k evaluations of W_i.
+ */
+function padLayer(values: Field[], k: number): Field[] {
+  return [
+    ...values,
+    ...Array.from({ length: 2 ** k - values.length }, () => Field(0)),
+  ];
+}
+
+/**
+ * Splits a sum check point in F^2k into the two points (b, c) in F^k
+ *
+ * @param x - The point.
+ * @returns The first and second halves of x.
+ */
+function splitPoint(x: Field[]): [Field[], Field[]] {
+  return [x.slice(0, x.length / 2), x.slice(x.length / 2)];
+}
+
+/**
+ * Evaluates the line ℓ(t) = b + t · (c - b) through ℓ(0) = b and ℓ(1) = c
+ *
+ * @param b - The point at t = 0.
+ * @param c - The point at t = 1.
+ * @param t - The parameter.
+ * @returns The point ℓ(t).
+ */
+function getPointOnLine(b: Field[], c: Field[], t: Field): Field[] {
+  return b.map((b_i, i) => b_i.add(t.mul(c[i].sub(b_i))));
+}
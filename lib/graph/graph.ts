@@ -0,0 +1,168 @@
+import { Field } from "o1js";
+import { getRequiredBits } from "../util.ts";
+
+/**
+ * Simple undirected graph on the vertices {0, ..., n-1}
+ */
+export interface Graph {
+  // number of vertices
+  n: number;
+  // undirected edges {u, v}, each listed once
+  edges: [number, number][];
+}
+
+/**
+ * Creates a graph, validating that edges refer to existing vertices and that there are no self loops or repeated edges
+ *
+ * @param n - The number of vertices.
+ * @param edges - The undirected edges of the graph.
+ * @returns The graph.
+ * @throws Error if an edge is invalid.
+ */
+export function createGraph(n: number, edges: [number, number][]): Graph {
+  if (!Number.isInteger(n) || n < 1)
+    throw Error(
+      `Number of vertices must be a positive integer, received ${n}.`,
+    );
+
+  const seen = new Set<string>();
+  edges.forEach(([u, v]) => {
+    if (![u, v].every((w) => Number.isInteger(w) && w >= 0 && w < n))
+      throw Error(`Edge (${u}, ${v}) refers to a vertex outside 0..${n - 1}.`);
+    if (u === v) throw Error(`Self loop at vertex ${u} is not allowed.`);
+    const key = `${Math.min(u, v)},${Math.max(u, v)}`;
+    if (seen.has(key))
+      throw Error(`Edge (${u}, ${v}) is listed more than once.`);
+    seen.add(key);
+  });
+
+  return { n, edges };
+}
+
+/**
+ * Creates a graph from its adjacency matrix
+ *
+ * @param matrix - A symmetric n x n matrix of 0s and 1s with zeroes on the diagonal.
+ * @returns The graph.
+ * @throws Error if the matrix is not a valid adjacency matrix.
+ */
+export function graphFromAdjacencyMatrix(matrix: number[][]): Graph {
+  const n = matrix.length;
+  const edges: [number, number][] = [];
+  matrix.forEach((row, i) => {
+    if (row.length !== n)
+      throw Error(
+        `Adjacency matrix must be square, row ${i} has ${row.length} entries.`,
+      );
+    row.forEach((entry, j) => {
+      if (entry !== 0 && entry !== 1)
+        throw Error(`Adjacency matrix entry (${i}, ${j}) must be 0 or 1.`);
+      if (entry !== matrix[j][i])
+        throw Error(
+          `Adjacency matrix must be symmetric, entries (${i}, ${j}) and (${j}, ${i}) differ.`,
+        );
+      if (entry === 1 && i < j) edges.push([i, j]);
+    });
+    if (row[i] === 1) throw Error(`Self loop at vertex ${i} is not allowed.`);
+  });
+  return createGraph(n, edges);
+}
+
+/**
+ * Parses a graph in the DIMACS edge format
+ *
+ *   c comment lines start with c
+ *   p edge <number of vertices> <number of edges>
+ *   e 1 2
+ *   e 2 3
+ *
+ * Vertices are numbered from 1 in the file and from 0 in the returned graph.
+ *
+ * @param text - The contents of a DIMACS edge file.
+ * @returns The parsed graph.
+ * @throws Error if the file is malformed.
+ */
+export function parseEdgeList(text: string): Graph {
+  let n: number | undefined;
+  let m: number | undefined;
+  const edges: [number, number][] = [];
+
+  const lines = text.split(/\r?\n/);
+  for (let lineNumber = 1; lineNumber <= lines.length; lineNumber++) {
+    const line = lines[lineNumber - 1].trim();
+    if (line === "" || line.startsWith("c")) continue;
+
+    const problem = /^p\s+edges?\s+(\d+)\s+(\d+)$/.exec(line);
+    if (problem) {
+      if (n !== undefined)
+        throw Error(`Duplicate problem line ${lineNumber}: "${line}".`);
+      n = Number(problem[1]);
+      m = Number(problem[2]);
+      continue;
+    }
+    const edge = /^e\s+(\d+)\s+(\d+)$/.exec(line);
+    if (!edge) throw Error(`Invalid line ${lineNumber}: "${line}".`);
+    if (n === undefined)
+      throw Error(
+        `Line ${lineNumber} appears before the problem line "p edge <vertices> <edges>".`,
+      );
+    edges.push([Number(edge[1]) - 1, Number(edge[2]) - 1]);
+  }
+
+  if (n === undefined || m === undefined)
+    throw Error('Missing problem line "p edge <vertices> <edges>".');
+  if (edges.length !== m)
+    throw Error(`Expected ${m} edges but found ${edges.length} edges.`);
+  return createGraph(n, edges);
+}
+
+/**
+ * Computes the number of variables l needed to index the vertices of a graph, n is padded up to 2^l vertices
+ *
+ * @param graph - The graph.
+ * @returns The number of bits used to encode a vertex, at least 1.
+ */
+export function getVertexBits(graph: Graph): number {
+  return Math.max(1, getRequiredBits(graph.n));
+}
+
+/**
+ * Computes the adjacency matrix of a graph as the point value representation of f_A: {0,1}^l x {0,1}^l -> F
+ * Vertices are padded up to 2^l, the entry for (i, j) is at index i · 2^l + j
+ *
+ * @param graph - The graph.
+ * @returns The 2^(2l) entries of the padded adjacency matrix in row-major order.
+ */
+export function getAdjacencyTable(graph: Graph): Field[] {
+  const size = 2 ** getVertexBits(graph);
+  const table = Array.from({ length: size * size }, () => Field(0));
+  graph.edges.forEach(([u, v]) => {
+    table[u * size + v] = Field(1);
+    table[v * size + u] = Field(1);
+  });
+  return table;
+}
+
+/**
+ * Counts the triangles in a graph by checking every triple of vertices
+ * Runs in O(n^3) time
+ *
+ * @param graph - The graph.
+ * @returns The number of triangles.
+ */
+export function countTriangles(graph: Graph): number {
+  const adjacent = Array.from({ length: graph.n }, () =>
+    Array.from({ length: graph.n }, () => false),
+  );
+  graph.edges.forEach(([u, v]) => {
+    adjacent[u][v] = true;
+    adjacent[v][u] = true;
+  });
+
+  let count = 0;
+  for (let i = 0; i < graph.n; i++)
+    for (let j = i + 1; j < graph.n; j++)
+      for (let k = j + 1; k < graph.n; k++)
+        if (adjacent[i][j] && adjacent[j][k] && adjacent[i][k]) count++;
+  return count;
+}
@@ -0,0 +1,143 @@
+import { Field } from "o1js";
+import { getAdjacencyTable, getVertexBits, Graph } from "./graph.ts";
+import { LinearTimeProver } from "../sum-check/linear-time-prover.ts";
+import { OracleVerifier } from "../sum-check/oracle-sum-check.ts";
+import { getMultilinearLagrangeBasisAt } from "../sum-check/multilinear-lagrange.ts";
+
+/**
+ * Interactive proof for counting triangles (Thaler section 4.3)
+ *
+ * Let A be the adjacency matrix of a graph on n = 2^l vertices and f_A: {0,1}^l x {0,1}^l -> F the function
+ * mapping the binary encodings of (i, j) to A_ij. Every triangle {i, j, k} is counted once for each of the 6
+ * orderings of its vertices by
+ *   sum over x, y, z in {0,1}^l of f_A(x, y) · f_A(y, z) · f_A(x, z)
+ * so the prover runs sum check on g(X, Y, Z) = f~_A(X, Y) · f~_A(Y, Z) · f~_A(X, Z), where f~_A is the
+ * multilinear extension of f_A, to prove 6 times the number of triangles.
+ *
+ * g is a 3l-variate polynomial of degree 2 in each variable, since each variable appears in two of the three factors.
+ */
+
+/**
+ * Sum check prover for the triangle counting protocol
+ *
+ * The prover expands each factor of g into a table over all 3l variables and runs the bookkeeping table prover
+ * on their product, taking O(n^3) time in total.
+ */
+export class TriangleCountingProver {
+  // number of variables in g, 3l
+  v: number;
+
+  // bookkeeping table prover for f_A(x, y) · f_A(y, z) · f_A(x, z)
+  private prover: LinearTimeProver;
+
+  /**
+   * Creates an instance of the TriangleCountingProver.
+   *
+   * @param graph - The graph whose triangles are being counted.
+   */
+  constructor(graph: Graph) {
+    const l = getVertexBits(graph);
+    const size = 2 ** l;
+    const adjacency = getAdjacencyTable(graph);
+
+    // entry (x, y, z) of each table is at index x · 2^(2l) + y · 2^l + z
+    const xy: Field[] = [];
+    const yz: Field[] = [];
+    const xz: Field[] = [];
+    for (let x = 0; x < size; x++)
+      for (let y = 0; y < size; y++)
+        for (let z = 0; z < size; z++) {
+          xy.push(adjacency[x * size + y]);
+          yz.push(adjacency[y * size + z]);
+          xz.push(adjacency[x * size + z]);
+        }
+
+    this.v = 3 * l;
+    this.prover = new LinearTimeProver([xy, yz, xz], this.v);
+  }
+
+  /**
+   * Computes the sum of g over {0,1}^3l, 6 times the number of triangles
+   *
+   * @returns The proposed sum.
+   */
+  getProposedSum(): Field {
+    return this.prover.getProposedSum();
+  }
+
+  /**
+   * Computes the univariate polynomial g_j for the current round j
+   * The bookkeeping table prover returns evaluations at 0, ..., 3 since g is a product of three factors,
+   * but g_j has degree 2 so only the first three evaluations are sent.
+   *
+   * @param r_prev - The j-1th value of r provided by the Verifier (should be undefined in the first round)
+   * @returns The point-value representation of g_j at the points 0, 1, 2.
+   */
+  getRoundJPolynomial(r_prev?: Field): Field[] {
+    return this.prover.getRoundJPolynomial(r_prev).slice(0, 3);
+  }
+}
+
+/**
+ * Evaluates the multilinear extension f~_A of the adjacency matrix of a graph at a point in F^2l
+ * by streaming over the edge list: f~_A(r) = sum over edges {u, v} of χ_(u,v)(r) + χ_(v,u)(r)
+ * Same result as `getMultilinearLDE` on the adjacency table, but runs in O(m · l) time and O(l) space for a graph
+ * with m edges, so the verifier never stores the adjacency matrix
+ *
+ * @param graph - The graph.
+ * @param r - The point in F^2l at which to evaluate.
+ * @returns The value f~_A(r).
+ * @throws Error if r does not have 2l entries.
+ */
+export function evaluateAdjacencyExtension(graph: Graph, r: Field[]): Field {
+  const l = getVertexBits(graph);
+  if (r.length !== 2 * l)
+    throw Error(
+      `Incorrect input vector length, expected ${2 * l} variables but received ${r.length}`,
+    );
+
+  const size = 2 ** l;
+  let accumulator = Field(0);
+  // entry (x, y) of the adjacency table is at index x · 2^l + y
+  graph.edges.forEach(([u, v]) => {
+    accumulator = accumulator
+      .add(getMultilinearLagrangeBasisAt(u * size + v, r))
+      .add(getMultilinearLagrangeBasisAt(v * size + u, r));
+  });
+  return accumulator;
+}
+
+/**
+ * Runs the triangle counting protocol between the prover and verifier
+ * The verifier's final check evaluates each factor of g(r) from the edge stream with `evaluateAdjacencyExtension`
+ *
+ * @param graph - The graph whose triangles are being counted.
+ * @param claimedCount - The number of triangles claimed by the prover, computed honestly if not supplied.
+ * @returns The verified number of triangles.
+ * @throws Error if the verifier rejects.
+ */
+export function proveTriangleCount(graph: Graph, claimedCount?: Field): Field {
+  const l = getVertexBits(graph);
+  const prover = new TriangleCountingProver(graph);
+  // each triangle is counted once per ordering of its 3 vertices
+  const sum =
+    claimedCount === undefined ? prover.getProposedSum() : claimedCount.mul(6);
+  const verifier = new OracleVerifier(
+    sum,
+    Array.from({ length: prover.v }, () => 2),
+  );
+
+  let r_j = undefined;
+  for (let j = 1; j <= prover.v; j++) {
+    const g_j = prover.getRoundJPolynomial(r_j);
+    r_j = verifier.verifyRoundJPolynomial(g_j);
+  }
+  verifier.verifyOracleQueryOfG((r) => {
+    const [x, y, z] = [r.slice(0, l), r.slice(l, 2 * l), r.slice(2 * l)];
+    return evaluateAdjacencyExtension(graph, [...x, ...y])
+      .mul(evaluateAdjacencyExtension(graph, [...y, ...z]))
+      .mul(evaluateAdjacencyExtension(graph, [...x, ...z]));
+  });
+
+  return sum.div(6);
+}
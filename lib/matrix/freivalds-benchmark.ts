@@ -0,0 +1,51 @@
+import { Matrix } from "./matrix.ts";
+import { freivaldsVerify, freivaldsVerifyUniform } from "./freivalds.ts";
+
+/**
+ * Timings in milliseconds for verifying C = AB for n x n matrices
+ */
+export interface FreivaldsBenchmark {
+  // dimension of the matrices
+  n: number;
+  // time to check C = AB by recomputing AB, O(n^3)
+  recompute: number;
+  // time to run Freivalds' check with x = (1, r, ..., r^{n-1}), O(n^2)
+  powers: number;
+  // time to run Freivalds' check with a uniformly random x, O(n^2)
+  uniform: number;
+}
+
+/**
+ * Compares Freivalds' check against recomputing AB for random n x n matrices A, B and C = AB
+ *
+ * @param n - The dimension of the matrices.
+ * @returns The time taken by each approach in milliseconds.
+ */
+export function benchmarkFreivalds(n: number): FreivaldsBenchmark {
+  const A = Matrix.random(n, n);
+  const B = Matrix.random(n, n);
+  const C = A.mul(B);
+
+  let start = performance.now();
+  A.mul(B).equals(C);
+  const recompute = performance.now() - start;
+
+  start = performance.now();
+  freivaldsVerify(A, B, C);
+  const powers = performance.now() - start;
+
+  start = performance.now();
+  freivaldsVerifyUniform(A, B, C);
+  const uniform = performance.now() - start;
+
+  return { n, recompute, powers, uniform };
+}
+
+(function runner() {
+  for (const n of [8, 16, 32, 64]) {
+    const { recompute, powers, uniform } = benchmarkFreivalds(n);
+    console.log(
+      `n = ${n}: recompute AB ${recompute.toFixed(1)}ms, Freivalds (powers of r) ${powers.toFixed(1)}ms, Freivalds (uniform x) ${uniform.toFixed(1)}ms`,
+    );
+  }
+})();
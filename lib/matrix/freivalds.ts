@@ -0,0 +1,144 @@
+import { Field } from "o1js";
+import { Matrix } from "./matrix.ts";
+
+/**
+ * Freivalds' algorithm for verifying matrix multiplication (Thaler section 2.2)
+ *
+ * Given n x n matrices A, B and a claimed product C, the verifier picks a vector x and checks A(Bx) = Cx.
+ * Each side costs O(n^2) time, compared to the O(n^3) time required to recompute AB.
+ *
+ * If C = AB the check always passes. If C != AB:
+ * - with x = (1, r, r^2, ..., r^{n-1}) for a random r, each row of (AB - C)x is a polynomial in r of degree at most n-1,
+ *   so the check passes with probability at most (n-1)/|F|, the same argument as Reed-Solomon fingerprinting
+ * - with x uniformly random in F^n, the check passes with probability at most 1/|F|
+ */
+
+/**
+ * Evidence that C != AB, a vector x and a row i for which (A(Bx))_i != (Cx)_i
+ */
+export interface FreivaldsRejection {
+  // the vector at which A(Bx) and Cx disagree
+  x: Field[];
+  // index of the first row in which A(Bx) and Cx disagree
+  row: number;
+  // the vector A(Bx)
+  ABx: Field[];
+  // the vector Cx
+  Cx: Field[];
+}
+
+/**
+ * Outcome of running Freivalds' check
+ */
+export interface FreivaldsResult {
+  // true if every repetition found A(Bx) = Cx
+  accepted: boolean;
+  // number of repetitions run before accepting or finding a disagreement
+  repetitions: number;
+  // evidence that C != AB, present only when the check rejects
+  rejection?: FreivaldsRejection;
+}
+
+/**
+ * Verifies the claim C = AB using the vector x = (1, r, r^2, ..., r^{n-1}) for a random field element r
+ *
+ * @param A - The left n x n matrix.
+ * @param B - The right n x n matrix.
+ * @param C - The claimed product AB.
+ * @param reps - The number of independent repetitions, used to amplify soundness.
+ * @returns The outcome of the check, including the rejection evidence if C != AB was detected.
+ */
+export function freivaldsVerify(
+  A: Matrix,
+  B: Matrix,
+  C: Matrix,
+  reps: number = 1,
+): FreivaldsResult {
+  return runFreivalds(A, B, C, reps, getPowerVector);
+}
+
+/**
+ * Verifies the claim C = AB using vectors x sampled uniformly at random from F^n
+ *
+ * @param A - The left n x n matrix.
+ * @param B - The right n x n matrix.
+ * @param C - The claimed product AB.
+ * @param reps - The number of independent repetitions, used to amplify soundness.
+ * @returns The outcome of the check, including the rejection evidence if C != AB was detected.
+ */
+export function freivaldsVerifyUniform(
+  A: Matrix,
+  B: Matrix,
+  C: Matrix,
+  reps: number = 1,
+): FreivaldsResult {
+  return runFreivalds(A, B, C, reps, getUniformVector);
+}
+
+/**
+ * Runs `reps` repetitions of Freivalds' check, drawing a fresh vector x each time
+ *
+ * @param A - The left matrix.
+ * @param B - The right matrix.
+ * @param C - The claimed product AB.
+ * @param reps - The number of repetitions.
+ * @param sampleVector - Generates the random vector x of the given length.
+ * @returns The outcome of the check.
+ */
+function runFreivalds(
+  A: Matrix,
+  B: Matrix,
+  C: Matrix,
+  reps: number,
+  sampleVector: (n: number) => Field[],
+): FreivaldsResult {
+  if (!Number.isInteger(reps) || reps < 1)
+    throw Error("Number of repetitions must be a positive integer.");
+  if (A.columns !== B.rows || C.rows !== A.rows || C.columns !== B.columns)
+    throw Error(
+      `Incompatible dimensions, cannot check that a ${C.rows}x${C.columns} matrix is the product of a ${A.rows}x${A.columns} and a ${B.rows}x${B.columns} matrix.`,
+    );
+
+  for (let rep = 1; rep <= reps; rep++) {
+    const x = sampleVector(B.columns);
+    // compute A(Bx) as two matrix-vector products instead of computing AB
+    const ABx = A.mulVector(B.mulVector(x));
+    const Cx = C.mulVector(x);
+
+    const row = ABx.findIndex((e, i) => !e.equals(Cx[i]).toBoolean());
+    if (row !== -1)
+      return {
+        accepted: false,
+        repetitions: rep,
+        rejection: { x, row, ABx, Cx },
+      };
+  }
+
+  return { accepted: true, repetitions: reps };
+}
+
+/**
+ * Generates the vector (1, r, r^2, ..., r^{n-1}) for a random field element r
+ * This is the same vector of powers used to evaluate the Reed-Solomon polynomial in `getReedSolomon`
+ *
+ * @param n - The length of the vector.
+ * @returns The vector of powers of r.
+ */
+function getPowerVector(n: number): Field[] {
+  const r = Field.random();
+  const powers = [Field(1)];
+  for (let i = 1; i < n; i++) {
+    powers.push(powers[i - 1].mul(r));
+  }
+  return powers;
+}
+
+/**
+ * Generates a vector with entries sampled uniformly at random from F
+ *
+ * @param n - The length of the vector.
+ * @returns The random vector.
+ */
+function getUniformVector(n: number): Field[] {
+  return Array.from({ length: n }, () => Field.random());
+}
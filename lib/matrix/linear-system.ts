@@ -0,0 +1,55 @@
+import { Field } from "o1js";
+import { Matrix } from "./matrix.ts";
+
+/**
+ * Solves the linear system Ax = b by Gaussian elimination
+ * Runs in O(R · C · min(R, C)) time for an R x C matrix. If the system is underdetermined, the free variables are set
+ * to zero, so some solution is returned whenever one exists.
+ *
+ * @param A - The R x C coefficient matrix.
+ * @param b - The right hand side, with R entries.
+ * @returns A solution x with C entries, or undefined if the system is inconsistent.
+ * @throws Error if b does not have one entry per row of A.
+ */
+export function solveLinearSystem(A: Matrix, b: Field[]): Field[] | undefined {
+  if (b.length !== A.rows)
+    throw Error(
+      `Cannot solve a ${A.rows}x${A.columns} system with a right hand side of length ${b.length}.`,
+    );
+
+  // augmented matrix [A | b], reduced in place to row echelon form
+  const rows = A.entries.map((row, i) => [...row, b[i]]);
+  const pivotColumns: number[] = [];
+
+  let pivotRow = 0;
+  for (let column = 0; column < A.columns && pivotRow < A.rows; column++) {
+    const row = rows.findIndex(
+      (r, i) => i >= pivotRow && !r[column].equals(0).toBoolean(),
+    );
+    if (row === -1) continue;
+    [rows[pivotRow], rows[row]] = [rows[row], rows[pivotRow]];
+
+    // scale the pivot to 1 and eliminate the column from every other row
+    const inverse = rows[pivotRow][column].inv();
+    rows[pivotRow] = rows[pivotRow].map((e) => e.mul(inverse));
+    rows.forEach((r, i) => {
+      if (i === pivotRow || r[column].equals(0).toBoolean()) return;
+      const factor = r[column];
+      rows[i] = r.map((e, k) => e.sub(factor.mul(rows[pivotRow][k])));
+    });
+
+    pivotColumns.push(column);
+    pivotRow++;
+  }
+
+  // a row 0 = c with c != 0 means there is no solution
+  for (let i = pivotRow; i < A.rows; i++) {
+    if (!rows[i][A.columns].equals(0).toBoolean()) return undefined;
+  }
+
+  const x = Array.from({ length: A.columns }, () => Field(0));
+  pivotColumns.forEach((column, i) => {
+    x[column] = rows[i][A.columns];
+  });
+  return x;
+}
@@ -0,0 +1,258 @@
+import { Field } from "o1js";
+import { Matrix } from "./matrix.ts";
+import { LinearTimeProver } from "../sum-check/linear-time-prover.ts";
+import { OracleVerifier } from "../sum-check/oracle-sum-check.ts";
+import {
+  ChallengeSource,
+  getSoundnessError,
+  RandomChallengeSource,
+} from "../sum-check/challenge-source.ts";
+import { MultilinearPolynomial } from "../polynomials/multilinear-polynomial.ts";
+import { getRequiredBits } from "../util.ts";
+
+/**
+ * Interactive proof for matrix multiplication (Thaler section 4.4)
+ *
+ * For n x n matrices with n = 2^l, let f_A: {0,1}^l x {0,1}^l -> F map the binary encodings of (i, j) to A_ij.
+ * C = AB means f_C(x, y) = sum over b in {0,1}^l of f_A(x, b) · f_B(b, y), and since both sides are multilinear
+ * the same identity holds for the multilinear extensions at any point of F^l x F^l.
+ *
+ * The verifier picks random r1, r2 in F^l and evaluates f~_C(r1, r2) itself. The prover then runs sum check on
+ *   g(Y) = f~_A(r1, Y) · f~_B(Y, r2)
+ * an l-variate polynomial of degree 2 in each variable, and the verifier's final check evaluates f~_A(r1, r_Y)
+ * and f~_B(r_Y, r2) directly. If C != AB, f~_C - f~_AB is a nonzero polynomial of total degree 2l and the
+ * verifier is fooled with probability at most 2l/|F| plus the soundness error of sum check.
+ */
+
+/**
+ * Sum check prover for the MatMult protocol
+ *
+ * Rather than evaluating the multilinear extensions at every point, the prover computes the tables
+ *   f~_A(r1, y) = sum over i of χ_i(r1) · A_iy    and    f~_B(y, r2) = sum over k of B_yk · χ_k(r2)
+ * for all y in {0,1}^l. The Lagrange basis values χ_i(r1) and χ_k(r2) are each computed once in O(n) time,
+ * so building both tables takes O(n^2) time and the bookkeeping table prover takes another O(n) time.
+ */
+export class MatMultProver {
+  // number of variables in g, l
+  v: number;
+
+  // bookkeeping table prover for f~_A(r1, Y) · f~_B(Y, r2)
+  private prover: LinearTimeProver;
+
+  /**
+   * Creates an instance of the MatMultProver.
+   *
+   * @param A - The left n x n matrix.
+   * @param B - The right n x n matrix.
+   * @param r1 - The row point in F^l chosen by the verifier.
+   * @param r2 - The column point in F^l chosen by the verifier.
+   */
+  constructor(A: Matrix, B: Matrix, r1: Field[], r2: Field[]) {
+    const n = A.rows;
+    const l = getMatrixBits(A);
+    if (r1.length !== l || r2.length !== l)
+      throw Error(
+        `Points r1 and r2 must have ${l} entries, received ${r1.length} and ${r2.length}.`,
+      );
+
+    const rowBasis = MultilinearPolynomial.eq(r1);
+    const columnBasis = MultilinearPolynomial.eq(r2);
+    const a = Array.from({ length: 2 ** l }, () => Field(0));
+    const b = Array.from({ length: 2 ** l }, () => Field(0));
+    // rows and columns beyond n are padded with zeroes and contribute nothing
+    for (let y = 0; y < n; y++) {
+      for (let i = 0; i < n; i++) {
+        a[y] = a[y].add(rowBasis.get(i).mul(A.entries[i][y]));
+        b[y] = b[y].add(B.entries[y][i].mul(columnBasis.get(i)));
+      }
+    }
+
+    this.v = l;
+    this.prover = new LinearTimeProver([a, b], l);
+  }
+
+  /**
+   * Computes the sum of g over {0,1}^l, equal to f~_AB(r1, r2)
+   *
+   * @returns The proposed sum.
+   */
+  getProposedSum(): Field {
+    return this.prover.getProposedSum();
+  }
+
+  /**
+   * Computes the univariate polynomial g_j for the current round j
+   *
+   * @param r_prev - The j-1th value of r provided by the Verifier (should be undefined in the first round)
+   * @returns The point-value representation of g_j at the points 0, 1, 2.
+   */
+  getRoundJPolynomial(r_prev?: Field): Field[] {
+    return this.prover.getRoundJPolynomial(r_prev);
+  }
+}
+
+/**
+ * Verifier for the MatMult protocol
+ *
+ * Holds A, B and the claimed product C, picks the random point (r1, r2) and checks the prover's sum check
+ * messages against f~_C(r1, r2)
+ */
+export class MatMultVerifier {
+  // number of variables in g, l
+  v: number;
+
+  // random row point in F^l
+  r1: Field[];
+
+  // random column point in F^l
+  r2: Field[];
+
+  // multilinear extensions of f_A and f_B, used for the final evaluation
+  private fA: MultilinearPolynomial;
+  private fB: MultilinearPolynomial;
+
+  // sum check verifier for g(Y) = f~_A(r1, Y) · f~_B(Y, r2) with claimed sum f~_C(r1, r2)
+  private verifier: OracleVerifier;
+
+  // source of the random point (r1, r2) and the sum check challenges
+  private challengeSource: ChallengeSource;
+
+  /**
+   * Creates an instance of the MatMultVerifier and picks the random point (r1, r2).
+   *
+   * @param A - The left n x n matrix.
+   * @param B - The right n x n matrix.
+   * @param C - The claimed product AB.
+   * @param challengeSource - The source of the random challenges, uniform over the whole field by default.
+   * @throws Error if the matrices are not all n x n.
+   */
+  constructor(
+    A: Matrix,
+    B: Matrix,
+    C: Matrix,
+    challengeSource: ChallengeSource = new RandomChallengeSource(),
+  ) {
+    const n = A.rows;
+    [A, B, C].forEach((M) => {
+      if (M.rows !== n || M.columns !== n)
+        throw Error(
+          `MatMult requires three ${n}x${n} matrices, received a ${M.rows}x${M.columns} matrix.`,
+        );
+    });
+
+    this.v = getMatrixBits(A);
+    this.challengeSource = challengeSource;
+    this.r1 = Array.from({ length: this.v }, () =>
+      this.getRandomFieldElement(),
+    );
+    this.r2 = Array.from({ length: this.v }, () =>
+      this.getRandomFieldElement(),
+    );
+    this.fA = new MultilinearPolynomial(getMatrixTable(A));
+    this.fB = new MultilinearPolynomial(getMatrixTable(B));
+
+    // the verifier evaluates f~_C(r1, r2) itself and uses it as the claimed sum
+    const claim = new MultilinearPolynomial(getMatrixTable(C)).evaluate([
+      ...this.r1,
+      ...this.r2,
+    ]);
+    this.verifier = new OracleVerifier(
+      claim,
+      Array.from({ length: this.v }, () => 2),
+      challengeSource,
+    );
+  }
+
+  /**
+   * Verifies the univariate polynomial g_j for the current round j
+   *
+   * @param g_j - The point-value representation of g_j at the points 0, 1, 2.
+   * @returns A random field element r_j for the next round.
+   */
+  verifyRoundJPolynomial(g_j: Field[]): Field {
+    return this.verifier.verifyRoundJPolynomial(g_j);
+  }
+
+  /**
+   * Verifies g(r_Y) = g_l(r_l) by evaluating f~_A(r1, r_Y) · f~_B(r_Y, r2) directly
+   */
+  verifyFinalEvaluation() {
+    this.verifier.verifyOracleQueryOfG((y) =>
+      this.fA
+        .evaluate([...this.r1, ...y])
+        .mul(this.fB.evaluate([...y, ...this.r2])),
+    );
+  }
+
+  /**
+   * Computes the probability that the verifier accepts C != AB
+   * f~_C - f~_AB has total degree 2l, so it vanishes at a random (r1, r2) with probability at most 2l/|S|, and the
+   * sum check over l variables of degree 2 adds another 2l/|S|.
+   *
+   * @returns The soundness error for the configured challenge space.
+   */
+  getSoundnessError(): number {
+    return getSoundnessError(
+      [2 * this.v, ...Array(this.v).fill(2)],
+      this.challengeSource.size,
+    );
+  }
+
+  getRandomFieldElement(): Field {
+    return this.challengeSource.next();
+  }
+}
+
+/**
+ * Runs the MatMult protocol to verify the claim C = AB
+ *
+ * @param A - The left n x n matrix.
+ * @param B - The right n x n matrix.
+ * @param C - The claimed product AB.
+ * @param challengeSource - The source of the verifier's random challenges.
+ * @throws Error if the verifier rejects.
+ */
+export function verifyMatrixProduct(
+  A: Matrix,
+  B: Matrix,
+  C: Matrix,
+  challengeSource?: ChallengeSource,
+) {
+  const verifier = new MatMultVerifier(A, B, C, challengeSource);
+  const prover = new MatMultProver(A, B, verifier.r1, verifier.r2);
+
+  let r_j = undefined;
+  for (let j = 1; j <= verifier.v; j++) {
+    const g_j = prover.getRoundJPolynomial(r_j);
+    r_j = verifier.verifyRoundJPolynomial(g_j);
+  }
+  verifier.verifyFinalEvaluation();
+}
+
+/**
+ * Computes the number of variables l needed to index the rows of a matrix, n is padded up to 2^l
+ *
+ * @param M - The matrix.
+ * @returns The number of bits used to encode a row index, at least 1.
+ */
+function getMatrixBits(M: Matrix): number {
+  return Math.max(1, getRequiredBits(M.rows));
+}
+
+/**
+ * Computes the point value representation of f_M: {0,1}^l x {0,1}^l -> F for a square matrix M
+ * The matrix is padded with zeroes up to 2^l x 2^l, the entry (i, j) is at index i · 2^l + j
+ *
+ * @param M - The matrix.
+ * @returns The 2^(2l) entries of the padded matrix in row-major order.
+ */
+function getMatrixTable(M: Matrix): Field[] {
+  const size = 2 ** getMatrixBits(M);
+  const table = Array.from({ length: size * size }, () => Field(0));
+  M.entries.forEach((row, i) =>
+    row.forEach((entry, j) => {
+      table[i * size + j] = entry;
+    }),
+  );
+  return table;
+}
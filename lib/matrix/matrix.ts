@@ -0,0 +1,175 @@
+import { Field } from "o1js";
+
+/**
+ * Dense matrix over the field F
+ * Entries are stored row by row, entries[i][j] is the entry in the ith row and jth column
+ */
+export class Matrix {
+  // number of rows
+  readonly rows: number;
+
+  // number of columns
+  readonly columns: number;
+
+  // row-major array of the matrix entries
+  readonly entries: Field[][];
+
+  /**
+   * Creates an instance of a Matrix.
+   *
+   * @param entries - A row-major array of entries, every row must have the same number of columns.
+   * @throws Error if the matrix has no entries or the rows have different lengths.
+   */
+  constructor(entries: Field[][]) {
+    if (entries.length === 0 || entries[0].length === 0)
+      throw Error("A matrix must have at least one row and one column.");
+    const columns = entries[0].length;
+    entries.forEach((row, i) => {
+      if (row.length !== columns)
+        throw Error(
+          `Row ${i} has ${row.length} entries, expected ${columns} entries.`,
+        );
+    });
+
+    this.rows = entries.length;
+    this.columns = columns;
+    this.entries = entries;
+  }
+
+  /**
+   * Creates a matrix from an array of numeric entries
+   *
+   * @param entries - A row-major array of entries.
+   * @returns The matrix with each entry converted to a field element.
+   */
+  static from(entries: (number | bigint | Field)[][]): Matrix {
+    return new Matrix(entries.map((row) => row.map((e) => Field(e))));
+  }
+
+  /**
+   * Creates a matrix with every entry equal to zero
+   *
+   * @param rows - The number of rows.
+   * @param columns - The number of columns.
+   * @returns The rows x columns zero matrix.
+   */
+  static zeros(rows: number, columns: number): Matrix {
+    return new Matrix(
+      Array.from({ length: rows }, () =>
+        Array.from({ length: columns }, () => Field(0)),
+      ),
+    );
+  }
+
+  /**
+   * Creates the n x n identity matrix
+   *
+   * @param n - The dimension of the matrix.
+   * @returns The identity matrix.
+   */
+  static identity(n: number): Matrix {
+    return new Matrix(
+      Array.from({ length: n }, (_, i) =>
+        Array.from({ length: n }, (_, j) => Field(i === j ? 1 : 0)),
+      ),
+    );
+  }
+
+  /**
+   * Creates a matrix with uniformly random entries
+   *
+   * @param rows - The number of rows.
+   * @param columns - The number of columns.
+   * @returns The random rows x columns matrix.
+   */
+  static random(rows: number, columns: number): Matrix {
+    return new Matrix(
+      Array.from({ length: rows }, () =>
+        Array.from({ length: columns }, () => Field.random()),
+      ),
+    );
+  }
+
+  /**
+   * Returns the entry in the ith row and jth column
+   *
+   * @param i - The row index.
+   * @param j - The column index.
+   * @returns The entry M_ij.
+   */
+  get(i: number, j: number): Field {
+    if (i < 0 || i >= this.rows || j < 0 || j >= this.columns)
+      throw Error(
+        `Index (${i}, ${j}) is out of bounds for a ${this.rows}x${this.columns} matrix.`,
+      );
+    return this.entries[i][j];
+  }
+
+  /**
+   * Computes the matrix product of this matrix with another matrix
+   * Runs in O(n^3) time for n x n matrices
+   *
+   * @param other - The matrix to multiply on the right.
+   * @returns The product of this matrix and `other`.
+   * @throws Error if the inner dimensions do not match.
+   */
+  mul(other: Matrix): Matrix {
+    if (this.columns !== other.rows)
+      throw Error(
+        `Cannot multiply a ${this.rows}x${this.columns} matrix by a ${other.rows}x${other.columns} matrix.`,
+      );
+
+    const product: Field[][] = [];
+    for (let i = 0; i < this.rows; i++) {
+      const row: Field[] = [];
+      for (let j = 0; j < other.columns; j++) {
+        // dot product of the ith row of this matrix and the jth column of other
+        let accumulator = Field(0);
+        for (let k = 0; k < this.columns; k++) {
+          accumulator = accumulator.add(
+            this.entries[i][k].mul(other.entries[k][j]),
+          );
+        }
+        row.push(accumulator);
+      }
+      product.push(row);
+    }
+    return new Matrix(product);
+  }
+
+  /**
+   * Computes the matrix-vector product of this matrix with a column vector
+   * Runs in O(n^2) time for an n x n matrix
+   *
+   * @param x - The vector to multiply, must have one entry per column of the matrix.
+   * @returns The vector Mx.
+   * @throws Error if the length of x does not match the number of columns.
+   */
+  mulVector(x: Field[]): Field[] {
+    if (x.length !== this.columns)
+      throw Error(
+        `Cannot multiply a ${this.rows}x${this.columns} matrix by a vector of length ${x.length}.`,
+      );
+
+    return this.entries.map((row) =>
+      row.reduce(
+        (accumulator, entry, j) => accumulator.add(entry.mul(x[j])),
+        Field(0),
+      ),
+    );
+  }
+
+  /**
+   * Checks whether this matrix is equal to another matrix
+   *
+   * @param other - The matrix to compare against.
+   * @returns true if both matrices have the same dimensions and entries.
+   */
+  equals(other: Matrix): boolean {
+    if (this.rows !== other.rows || this.columns !== other.columns)
+      return false;
+    return this.entries.every((row, i) =>
+      row.every((entry, j) => entry.equals(other.entries[i][j]).toBoolean()),
+    );
+  }
+}
@@ -1,20 +1,22 @@
 import { Field } from "o1js";
 import {
-  asciiToNumber,
   generateBinaryVertices,
   getRequiredBits,
+  messageToFields,
+  MessageEncodingOptions,
+  MessageInput,
 } from "../util.ts";
 
 /**
- * Evaluates the multilinear extension of an ASCII message at a specified point in the vector space F^d
+ * Evaluates the multilinear extension of a message at a specified point in the vector space F^d
  *
- * This function treats the ASCII message as a function f defined on the vertices of a d-dimensional hypercube,
- * where d = ceil(log_2(n)) and n is the length of the message.
+ * This function treats the field elements of the message as a function f defined on the vertices of a d-dimensional hypercube,
+ * where d = ceil(log_2(n)) and n is the number of field elements in the message.
  *
- * - **Hypercube Representation**: Each message character corresponds to a function value at a hypercube vertex.
+ * - **Hypercube Representation**: Each message entry corresponds to a function value at a hypercube vertex.
  *   The vertices are indexed by the binary representations of their indices (from 0 to n - 1).
  * - **Function Definition**:
- *      f: \{0,1\}^d -> F  such that f(i-the vertex) = i-th character in the message
+ *      f: \{0,1\}^d -> F  such that f(i-th vertex) = i-th entry of the message
  *
  * - **Multilinear Extension**: f is extended to f': F^d -> F,
  *   allowing evaluation at any point in the vector space F^d, not just at the hypercube vertices
@@ -23,22 +25,25 @@ import {
  *
  * **Note**: If the message length n is less than 2^d, the function assigns zero to the function values at the remaining vertices.
  *
- * @param message - The ASCII string message to encode and interpolate.
+ * @param message - The message to encode and interpolate, see `messageToFields`.
  * @param r - A vector of `Field` elements representing a point in F^d at which to evaluate the multilinear extension.
  *            The length of `r` must be equal to d = ceil(log_2(n))
+ * @param options - Whether to pack the bytes of the message, 31 per field element.
  * @returns The `Field` element representing f'(r)
  * @throws Error if the message is empty or if the dimension of `r` does not match d
  */
 export function getMemoizedMultilinearLagrange(
-  message: string,
+  message: MessageInput,
   r: Field[],
+  options: MessageEncodingOptions = {},
 ): Field {
-  if (!message || message.length === 0) {
+  const entries = messageToFields(message, options);
+  if (entries.length === 0) {
     throw Error("Message cannot be empty.");
   }
 
   // dimension of hypercube required to encode all indices of message
-  const d = getRequiredBits(message.length);
+  const d = getRequiredBits(entries.length);
 
   if (r.length != d) {
     throw Error(
@@ -54,7 +59,7 @@ export function getMemoizedMultilinearLagrange(
   // v1 is the vector of all evaluations of f over the d dimensional hypercube, subbing in 0 for any vertices for which
   // there is no message entry
   const v1 = interpolatingSet.map((v, index) =>
-    index >= message.length ? Field(0) : Field(asciiToNumber(message[index])),
+    index >= entries.length ? Field(0) : entries[index],
   );
   // v2 is the vector of all Lagrange basis polynomials for interpolating set w in {0,1}^d evaluated at r
   const v2 = memoizedLagrangeBasis(r);
@@ -80,7 +85,7 @@ export function getMemoizedMultilinearLagrange(
  * @param x - A vector of `Field` elements representing a point in F^d
  * @returns An array of `Field` elements containing the evaluations L_w(r) for all  w in \{0,1\}^d
  */
-function memoizedLagrangeBasis(x: Field[]): Field[] {
+export function memoizedLagrangeBasis(x: Field[]): Field[] {
   // Initialize the basis evaluations for the first dimension [(0),(1)]
   // For w_0 = 0: (1 - r[0]), for w_0 = 1: r[0]
   let prevRound = [Field(1).sub(x[0]), x[0]];
@@ -0,0 +1,182 @@
+import { Field } from "o1js";
+import { getReedSolomon } from "./reed-solomon.ts";
+import { messageToFields, MessageInput } from "../util.ts";
+
+/**
+ * Reed-Solomon fingerprinting protocol for equality testing (Thaler section 2.1)
+ *
+ * Alice and Bob each hold a file of n field elements, e.g. the UTF-8 bytes of a string, and want to determine whether the files are equal
+ * without Alice sending her entire file to Bob.
+ *
+ * - Alice picks a random field element r and sends (r, p_a(r)) to Bob, where p_a is the polynomial whose
+ *   coefficients are the entries of her file (see `getReedSolomon`)
+ * - Bob evaluates his own polynomial p_b at r and accepts iff p_a(r) = p_b(r)
+ *
+ * If a = b, Bob always accepts. If a != b, p_a - p_b is a nonzero polynomial of degree at most n-1,
+ * so it has at most n-1 roots and Bob wrongly accepts with probability at most (n-1)/|F|.
+ */
+
+/**
+ * The message Alice sends to Bob in one repetition of the protocol
+ */
+export interface Fingerprint {
+  // random evaluation point chosen by Alice
+  r: Field;
+  // Alice's Reed-Solomon polynomial evaluated at r
+  value: Field;
+}
+
+/**
+ * Outcome of running the fingerprinting protocol
+ */
+export interface FingerprintingResult {
+  // true if Bob accepted in every repetition
+  accepted: boolean;
+  // number of independent repetitions that were run
+  repetitions: number;
+  // fingerprints sent by Alice, one per repetition
+  fingerprints: Fingerprint[];
+  // total number of bits Alice sent to Bob over all repetitions
+  communicationBits: number;
+  // upper bound on the probability that Bob accepts when the files differ
+  falseAcceptBound: number;
+}
+
+/**
+ * Number of bits required to send a single field element
+ */
+export const FIELD_ELEMENT_BITS = Field.ORDER.toString(2).length;
+
+/**
+ * Sender in the fingerprinting protocol, holds file a
+ */
+export class Alice {
+  // Alice's file
+  file: MessageInput;
+
+  /**
+   * Creates an instance of Alice.
+   *
+   * @param file - The file held by Alice.
+   */
+  constructor(file: MessageInput) {
+    if (file.length === 0) throw Error("File cannot be empty.");
+    this.file = file;
+  }
+
+  /**
+   * Picks a random field element r and evaluates the Reed-Solomon polynomial of Alice's file at r
+   *
+   * @returns The fingerprint (r, p_a(r)) to send to Bob.
+   */
+  sendFingerprint(): Fingerprint {
+    const r = Field.random();
+    return { r, value: getReedSolomon(this.file, r) };
+  }
+}
+
+/**
+ * Receiver in the fingerprinting protocol, holds file b
+ */
+export class Bob {
+  // Bob's file
+  file: MessageInput;
+
+  /**
+   * Creates an instance of Bob.
+   *
+   * @param file - The file held by Bob.
+   */
+  constructor(file: MessageInput) {
+    if (file.length === 0) throw Error("File cannot be empty.");
+    this.file = file;
+  }
+
+  /**
+   * Compares Alice's fingerprint against the Reed-Solomon polynomial of Bob's file
+   *
+   * @param fingerprint - The pair (r, p_a(r)) sent by Alice.
+   * @returns true if p_a(r) = p_b(r), in which case Bob accepts that the files are equal.
+   */
+  verifyFingerprint(fingerprint: Fingerprint): boolean {
+    return getReedSolomon(this.file, fingerprint.r)
+      .equals(fingerprint.value)
+      .toBoolean();
+  }
+}
+
+/**
+ * Computes the number of bits Alice sends to Bob, each repetition sends two field elements
+ *
+ * @param repetitions - The number of independent repetitions of the protocol.
+ * @returns The total communication cost in bits.
+ */
+export function getCommunicationCost(repetitions: number = 1): number {
+  return 2 * FIELD_ELEMENT_BITS * repetitions;
+}
+
+/**
+ * Computes the upper bound ((n-1)/|F|)^k on the probability that Bob accepts unequal files
+ * Each repetition uses an independent r, so the error probability of k repetitions is the product of the individual bounds
+ *
+ * Note: for the Pallas field this is astronomically small and underflows to 0 after a handful of repetitions.
+ *
+ * @param n - The length of the files.
+ * @param repetitions - The number of independent repetitions of the protocol.
+ * @returns The false-accept probability bound.
+ */
+export function getFalseAcceptProbability(
+  n: number,
+  repetitions: number = 1,
+): number {
+  if (!Number.isInteger(n) || n < 1)
+    throw Error("File length must be a positive integer.");
+  return ((n - 1) / Number(Field.ORDER)) ** repetitions;
+}
+
+/**
+ * Runs the fingerprinting protocol between Alice holding `a` and Bob holding `b`
+ * The protocol is repeated `repetitions` times with independent random points, Bob accepts only if every repetition accepts.
+ *
+ * Both files are assumed to have the same length n, as in Thaler. Files that differ only by trailing zero entries
+ * define the same polynomial and will be accepted as equal.
+ *
+ * @param a - The file held by Alice.
+ * @param b - The file held by Bob.
+ * @param repetitions - The number of independent repetitions, used to amplify soundness.
+ * @returns The outcome of the protocol along with its communication cost and soundness bound.
+ */
+export function runFingerprintingProtocol(
+  a: MessageInput,
+  b: MessageInput,
+  repetitions: number = 1,
+): FingerprintingResult {
+  if (!Number.isInteger(repetitions) || repetitions < 1)
+    throw Error("Number of repetitions must be a positive integer.");
+
+  const alice = new Alice(a);
+  const bob = new Bob(b);
+
+  const fingerprints: Fingerprint[] = [];
+  let accepted = true;
+  for (let i = 0; i < repetitions; i++) {
+    const fingerprint = alice.sendFingerprint();
+    fingerprints.push(fingerprint);
+    // Bob rejects as soon as a single repetition fails
+    if (!bob.verifyFingerprint(fingerprint)) {
+      accepted = false;
+      break;
+    }
+  }
+
+  return {
+    accepted,
+    repetitions: fingerprints.length,
+    fingerprints,
+    communicationBits: getCommunicationCost(fingerprints.length),
+    falseAcceptBound: getFalseAcceptProbability(
+      Math.max(messageToFields(a).length, messageToFields(b).length),
+      fingerprints.length,
+    ),
+  };
+}
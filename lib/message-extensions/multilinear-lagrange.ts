@@ -1,8 +1,13 @@
 import { Field } from "o1js";
-import { asciiToNumber, generateBinaryVertices } from "../util.ts";
+import {
+  generateBinaryVertices,
+  messageToFields,
+  MessageEncodingOptions,
+  MessageInput,
+} from "../util.ts";
 
 /**
- * Constructs a unique multilinear extension polynomial from an n-length ASCII message.
+ * Constructs a unique multilinear extension polynomial from an n-length message.
  * The polynomial interpolates the message entries at their binary indices within the
  * ⌈log₂(n)⌉-dimensional hypercube and extends the function over the entire vector space
  * F^d, where d is the dimension of the hypercube.
@@ -14,15 +19,21 @@ import { asciiToNumber, generateBinaryVertices } from "../util.ts";
  *
  * Runs in O(n) time - iterates over each entry in interpolating set
  *
- * @param message - An n-length ASCII message to encode via multilinear interpolation.
+ * @param message - A message of n field elements to encode via multilinear interpolation, see `messageToFields`.
  * @param x - The vector in the vector space F^d at which to evaluate the extension polynomial.
  *            This should be an array of Field elements, with each element representing a coordinate
  *            in the d-dimensional space.
  * @returns The evaluated result of the extension polynomial at the specified vector `x`,
  *          representing the extended function's value at that point.
+ * @param options - Whether to pack the bytes of the message, 31 per field element.
  */
-export function getMultilinearLagrange(message: string, x: Field[]): Field {
-  const n = message.length;
+export function getMultilinearLagrange(
+  message: MessageInput,
+  x: Field[],
+  options: MessageEncodingOptions = {},
+): Field {
+  const entries = messageToFields(message, options);
+  const n = entries.length;
   if (n === 0) {
     throw Error("Dataset cannot be empty.");
   }
@@ -40,10 +51,8 @@ export function getMultilinearLagrange(message: string, x: Field[]): Field {
   // O(n)
   // todo - can we sum over n entries of the message instead of 2^d vertices?
   for (let i = 0; i < interpolatingSet.length; i++) {
-    // obtain field representation of ascii character in message
     // 2^d will likely be larger than n, right-pad the message with zeroes
-    const coefficient =
-      i >= message.length ? Field(0) : Field(asciiToNumber(message[i]));
+    const coefficient = i >= n ? Field(0) : entries[i];
     lagrangeBasisAtInput = getMultilinearLagrangeBasisAt(
       interpolatingSet[i],
       interpolatingSet,
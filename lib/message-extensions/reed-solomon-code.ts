@@ -0,0 +1,144 @@
+import { Field } from "o1js";
+import { Matrix } from "../matrix/matrix.ts";
+import { solveLinearSystem } from "../matrix/linear-system.ts";
+import {
+  getRootOfUnity,
+  UnivariatePolynomial,
+} from "../polynomials/univariate-polynomial.ts";
+
+/**
+ * Reed-Solomon codes over F_p
+ *
+ * A message m of k field elements is read as the coefficients of the polynomial P(x) = m_0 + m_1·x + ... + m_{k-1}·x^(k-1),
+ * as in `getReedSolomon`, and encoded as the n evaluations of P over a domain of n distinct points. Two distinct
+ * polynomials of degree less than k agree on fewer than k points, so the code has distance n - k + 1 and
+ * any (n-k)/2 errors can be corrected.
+ */
+
+/**
+ * Reed-Solomon codeword along with the parameters needed to decode it
+ */
+export interface ReedSolomonCodeword {
+  // number of message symbols
+  k: number;
+  // the n distinct evaluation points
+  domain: Field[];
+  // symbols[i] = P(domain[i]), possibly corrupted
+  symbols: Field[];
+}
+
+/**
+ * Result of decoding a Reed-Solomon codeword
+ */
+export interface ReedSolomonDecoding {
+  // the k message symbols
+  message: Field[];
+  // indices of the symbols that were corrected
+  errorPositions: number[];
+}
+
+/**
+ * Encodes a message with a Reed-Solomon code of a given rate
+ *
+ * The codeword length n is the smallest power of 2 with k / n <= rate, and the evaluation domain is the
+ * nth roots of unity 1, ω, ..., ω^(n-1), so the codeword is computed in O(n log n) time with the NTT.
+ *
+ * @param message - The k message symbols.
+ * @param rate - The largest acceptable ratio k / n, between 0 and 1.
+ * @returns The codeword.
+ * @throws Error if the message is empty or the rate is not between 0 and 1.
+ */
+export function encodeReedSolomon(
+  message: Field[],
+  rate: number,
+): ReedSolomonCodeword {
+  if (message.length === 0) throw Error("Message cannot be empty.");
+  if (!(rate > 0 && rate <= 1))
+    throw Error(`Rate must be between 0 and 1, received ${rate}.`);
+
+  const k = message.length;
+  const n = 2 ** Math.ceil(Math.log2(k / rate));
+  return {
+    k,
+    domain: getEvaluationDomain(n),
+    symbols: new UnivariatePolynomial(message).evaluateOverDomain(n),
+  };
+}
+
+/**
+ * Computes the evaluation domain used by `encodeReedSolomon`
+ *
+ * @param n - The codeword length, a power of 2.
+ * @returns The nth roots of unity ω^0, ..., ω^(n-1).
+ */
+export function getEvaluationDomain(n: number): Field[] {
+  const omega = getRootOfUnity(n);
+  const domain = [Field(1)];
+  for (let i = 1; i < n; i++) domain.push(domain[i - 1].mul(omega));
+  return domain;
+}
+
+/**
+ * Decodes a Reed-Solomon codeword with the Berlekamp-Welch algorithm
+ *
+ * Let e = floor((n-k)/2) and let E be the monic error locator polynomial of degree e, vanishing at every corrupted
+ * position. Then Q = P · E has degree less than e + k and satisfies Q(a_i) = y_i · E(a_i) at every point a_i, which is
+ * a linear system of n equations in the 2e + k unknown coefficients of Q and E. Any solution gives P = Q / E,
+ * and the decoder rejects the codeword if the division is not exact or P disagrees with more than e symbols.
+ *
+ * @param codeword - The received codeword.
+ * @returns The message and the positions of the corrected errors.
+ * @throws Error if the codeword has more errors than can be corrected.
+ */
+export function decodeReedSolomon(
+  codeword: ReedSolomonCodeword,
+): ReedSolomonDecoding {
+  const { k, domain, symbols } = codeword;
+  const n = domain.length;
+  if (symbols.length !== n)
+    throw Error(
+      `Codeword has ${symbols.length} symbols but the evaluation domain has ${n} points.`,
+    );
+  if (!Number.isInteger(k) || k < 1 || k > n)
+    throw Error(
+      `Message length must be an integer between 1 and ${n}, received ${k}.`,
+    );
+
+  const e = Math.floor((n - k) / 2);
+  const tooManyErrors = Error(
+    `Too many errors to decode, a code with n = ${n} and k = ${k} can correct at most ${e} errors.`,
+  );
+
+  // unknowns are the coefficients E_0, ..., E_{e-1} of E (E_e = 1) followed by Q_0, ..., Q_{e+k-1}
+  // row i encodes Q(a_i) - y_i · (E_0 + ... + E_{e-1} a_i^(e-1)) = y_i · a_i^e
+  const rows: Field[][] = [];
+  const rhs: Field[] = [];
+  domain.forEach((a, i) => {
+    const powers = [Field(1)];
+    for (let j = 1; j <= e + k; j++) powers.push(powers[j - 1].mul(a));
+    rows.push([
+      ...powers.slice(0, e).map((p) => symbols[i].neg().mul(p)),
+      ...powers.slice(0, e + k),
+    ]);
+    rhs.push(symbols[i].mul(powers[e]));
+  });
+
+  const solution = solveLinearSystem(new Matrix(rows), rhs);
+  if (solution === undefined) throw tooManyErrors;
+
+  const E = new UnivariatePolynomial([...solution.slice(0, e), Field(1)]);
+  const Q = new UnivariatePolynomial(solution.slice(e));
+  const { quotient: P, remainder } = Q.divmod(E);
+  if (remainder.degree() >= 0 || P.degree() >= k) throw tooManyErrors;
+
+  const evaluations = P.evaluateMany(domain);
+  const errorPositions = evaluations.flatMap((y, i) =>
+    y.equals(symbols[i]).toBoolean() ? [] : [i],
+  );
+  if (errorPositions.length > e) throw tooManyErrors;
+
+  return {
+    message: Array.from({ length: k }, (_, i) => P.coefficients[i] ?? Field(0)),
+    errorPositions,
+  };
+}
@@ -1,21 +1,31 @@
 import { Field } from "o1js";
-import { asciiToNumber } from "../util.ts";
+import {
+  messageToFields,
+  MessageEncodingOptions,
+  MessageInput,
+} from "../util.ts";
 
 /**
- * Evaluates a low degree extension polynomial derived from the Reed Solomon encoding of an ASCII message at a given field element `r`.
+ * Evaluates a low degree extension polynomial derived from the Reed Solomon encoding of a message at a given field element `r`.
  *
- * This function interprets the given ASCII message as coefficients of a polynomial over the finite field F.
+ * This function interprets the field elements of the given message as coefficients of a polynomial over the finite field F.
  * It constructs the polynomial as a linear transformation over the standard monomial basis:
  *   P(x) = c₀ + c₁·x + c₂·x² + ... + cₙ₋₁·xⁿ⁻¹
- * where each coefficient cᵢ is the field representation of the ASCII code of the i-th character of message.
+ * where cᵢ is the i-th field element of the message, e.g. the i-th byte of a string encoded as UTF-8.
  *
- * @param message - The ASCII string message to encode.
+ * @param message - The message to encode, see `messageToFields`.
  * @param r - The field element at which to evaluate the polynomial.
+ * @param options - Whether to pack the bytes of the message, 31 per field element.
  * @returns The field element P(r), the evaluation of the polynomial at r.
  * @throws Error if the message is empty.
  */
-export function getReedSolomon(message: string, r: Field): Field {
-  if (message.length === 0) {
+export function getReedSolomon(
+  message: MessageInput,
+  r: Field,
+  options: MessageEncodingOptions = {},
+): Field {
+  const coefficients = messageToFields(message, options);
+  if (coefficients.length === 0) {
     throw new Error("Message cannot be empty.");
   }
 
@@ -25,11 +35,8 @@ export function getReedSolomon(message: string, r: Field): Field {
   // Current power of the field element `r` (r^0 = 1 initially)
   let currentPower = Field(1);
 
-  // Sum over each character in the message to construct and evaluate the polynomial
-  for (let i = 0; i < message.length; i++) {
-    // Convert the ASCII character to its numeric representation
-    const coefficient = Field(asciiToNumber(message[i]));
-
+  // Sum over each field element in the message to construct and evaluate the polynomial
+  for (const coefficient of coefficients) {
     // Add the current term (coefficient * r^i) to the result
     result = result.add(coefficient.mul(currentPower));
 
@@ -1,71 +1,37 @@
 import { Field } from "o1js";
-import { asciiToNumber } from "../util.ts";
+import { getUnivariateLDE } from "../sum-check/univariate-lagrange.ts";
+import {
+  messageToFields,
+  MessageEncodingOptions,
+  MessageInput,
+} from "../util.ts";
 
 /**
- * Evaluates a univariate Lagrange interpolating polynomial derived from an ASCII message at a specified field element.
+ * Evaluates a univariate Lagrange interpolating polynomial derived from a message at a specified field element.
  *
- * This function interprets the provided ASCII message as function values at distinct interpolation points (indices).
+ * This function interprets the field elements of the provided message as function values at distinct interpolation points (indices).
  * It constructs the Lagrange interpolating polynomial:
  *   P(x) = Σ (cᵢ · Lᵢ(x))
- * where each coefficient cᵢ corresponds to the ASCII code of the i-th character in the message,
+ * where each coefficient cᵢ is the i-th field element of the message,
  * and Lᵢ(x) is the i-th Lagrange basis polynomial defined over the set {0, 1, ..., n-1}.
  *
- * If the evaluation point `r` is one of the interpolation points (i.e., an integer index within the message length),
- * the function returns the corresponding ASCII value directly for efficiency.
- * Otherwise, it computes the polynomial value at `r` using Lagrange interpolation.
+ * The polynomial is evaluated with the barycentric interpolator over {0, 1, ..., n-1} shared with `getUnivariateLDE`,
+ * which returns the message entry itself when `r` is one of the interpolation points.
  *
- * @param message - The ASCII string message to encode.
+ * @param message - The message to encode, see `messageToFields`.
  * @param r - The field element at which to evaluate the polynomial.
+ * @param options - Whether to pack the bytes of the message, 31 per field element.
  * @returns The field element P(r), representing the evaluated polynomial at `r`.
- * @throws Error if the message is empty or if `r` is an interpolation point when not handled explicitly.
+ * @throws Error if the message is empty.
  */
-export function getUnivariateLagrange(message: string, r: Field): Field {
-  const n = message.length;
-  if (n === 0) {
-    throw Error("Message cannot be empty.");
-  }
-  // r value is an element in the interpolating set, return the corresponding message entry
-  if (r.lessThan(n).toBoolean()) {
-    const index = Number(r.toBigInt());
-    return Field(asciiToNumber(message[index]));
-  }
-
-  // accumulator for summation over interpolation points
-  let result = Field(0);
-  // interpolation points ({0...n-1})
-  const interpolatingSet = Array.from({ length: n }, (_, index) =>
-    Field(index),
-  );
-
-  // sum over interpolation points
-  for (let i = 0; i < interpolatingSet.length; i++) {
-    // coefficient
-    const coeff = Field(asciiToNumber(message[i]));
-    // lagrange basis evaluated at r
-    const lagrangeBasis = getLagrangeBasis(i, interpolatingSet, r);
-    result = result.add(coeff.mul(lagrangeBasis));
-  }
-
-  return result;
-}
-
-// returns the index-th lagrange basis polynomial for the interpolating set evaluated at x
-function getLagrangeBasis(
-  index: number,
-  interpolatingSet: Field[],
-  x: Field,
+export function getUnivariateLagrange(
+  message: MessageInput,
+  r: Field,
+  options: MessageEncodingOptions = {},
 ): Field {
-  // accumulator for product over interpolating set indices
-  let accumulator = Field(1);
-  for (let j = 0; j < interpolatingSet.length; j++) {
-    // skip term where j = index
-    if (j === index) continue;
-    // jth term = (x-interpolatingSet[j]) / (interpolatingSet[index] - interpolatingSet[j])
-    const term = x
-      .sub(interpolatingSet[j])
-      .div(interpolatingSet[index].sub(interpolatingSet[j]));
-    accumulator = accumulator.mul(term);
+  const entries = messageToFields(message, options);
+  if (entries.length === 0) {
+    throw Error("Message cannot be empty.");
   }
-
-  return accumulator;
+  return getUnivariateLDE(entries, r);
 }
@@ -0,0 +1,144 @@
+import { Field } from "o1js";
+
+/**
+ * Univariate Lagrange interpolation over arbitrary distinct nodes in barycentric form
+ *
+ * For nodes x_0, ..., x_{n-1} let ℓ(x) = Π_j (x - x_j) and let w_j = 1 / Π_{k != j} (x_j - x_k) be the barycentric
+ * weights. The polynomial of degree less than n taking the value y_j at x_j is
+ *   p(r) = ℓ(r) · Σ_j w_j · y_j / (r - x_j)
+ * The weights depend only on the nodes, so they are computed once in O(n^2) time. Each evaluation then takes O(n)
+ * multiplications and, with batch inversion of the n differences r - x_j, a single field inversion.
+ *
+ *   const interpolator = new BarycentricInterpolator([Field(1), Field(5), Field(7)]);
+ *   interpolator.evaluate([Field(2), Field(3), Field(4)], Field(10));
+ */
+export class BarycentricInterpolator {
+  // the distinct interpolation nodes x_0, ..., x_{n-1}
+  readonly nodes: Field[];
+
+  // barycentric weights w_j = 1 / Π_{k != j} (x_j - x_k)
+  readonly weights: Field[];
+
+  // position of each node, to detect evaluation points that are nodes
+  private indices: Map<bigint, number>;
+
+  /**
+   * Creates an instance of the BarycentricInterpolator and precomputes the barycentric weights.
+   *
+   * @param nodes - The interpolation nodes.
+   * @throws Error if there are no nodes or two nodes are equal.
+   */
+  constructor(nodes: Field[]) {
+    if (nodes.length === 0) throw Error("Interpolation nodes cannot be empty.");
+    this.indices = new Map();
+    nodes.forEach((node, j) => {
+      const key = node.toBigInt();
+      if (this.indices.has(key))
+        throw Error(
+          `Interpolation nodes must be distinct, nodes ${this.indices.get(key)} and ${j} are both ${key}.`,
+        );
+      this.indices.set(key, j);
+    });
+
+    this.nodes = [...nodes];
+    this.weights = batchInvert(
+      nodes.map((x_j, j) =>
+        nodes.reduce(
+          (product, x_k, k) => (k === j ? product : product.mul(x_j.sub(x_k))),
+          Field(1),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Creates an interpolator over the nodes {0, 1, ..., n-1} used by `getUnivariateLDE`
+   *
+   * @param n - The number of nodes.
+   * @returns The interpolator.
+   */
+  static consecutive(n: number): BarycentricInterpolator {
+    return new BarycentricInterpolator(
+      Array.from({ length: n }, (_, i) => Field(i)),
+    );
+  }
+
+  /**
+   * Evaluates the interpolating polynomial at a point in O(n) time with a single inversion
+   *
+   * @param values - The values y_j at each node.
+   * @param r - The point at which to evaluate.
+   * @returns The value p(r), equal to y_j when r is the node x_j.
+   * @throws Error if there is not one value per node.
+   */
+  evaluate(values: Field[], r: Field): Field {
+    if (values.length !== this.nodes.length)
+      throw Error(
+        `Expected ${this.nodes.length} values, one per interpolation node, but received ${values.length}.`,
+      );
+    return this.getBasis(r).reduce(
+      (accumulator, L_j, j) => accumulator.add(values[j].mul(L_j)),
+      Field(0),
+    );
+  }
+
+  /**
+   * Evaluates every Lagrange basis polynomial at a point in O(n) time with a single inversion
+   * L_j(r) = ℓ(r) · w_j / (r - x_j), so that p(r) = Σ_j y_j · L_j(r).
+   *
+   * @param r - The point at which to evaluate.
+   * @returns The values L_0(r), ..., L_{n-1}(r).
+   */
+  getBasis(r: Field): Field[] {
+    // r - x_j is zero at a node, where the barycentric formula is undefined and L_j(x_k) is 1 if j = k else 0
+    const index = this.indices.get(r.toBigInt());
+    if (index !== undefined)
+      return this.nodes.map((_, j) => Field(j === index ? 1 : 0));
+
+    const differences = this.nodes.map((x_j) => r.sub(x_j));
+    const inverses = batchInvert(differences);
+    const l = differences.reduce((product, d) => product.mul(d), Field(1));
+    return this.weights.map((w_j, j) => l.mul(w_j).mul(inverses[j]));
+  }
+
+  /**
+   * Evaluates the interpolating polynomial at several points
+   *
+   * @param values - The values y_j at each node.
+   * @param points - The points at which to evaluate.
+   * @returns The values p(r) for each point r.
+   */
+  evaluateMany(values: Field[], points: Field[]): Field[] {
+    return points.map((r) => this.evaluate(values, r));
+  }
+}
+
+/**
+ * Inverts field elements with Montgomery's trick, using a single field inversion and 3(n-1) multiplications
+ * The prefix products a_0 · ... · a_i are inverted together, then each inverse is peeled off from the back.
+ *
+ * @param values - The elements to invert.
+ * @returns The inverses 1 / a_i, in the same order.
+ * @throws Error if an element is zero.
+ */
+export function batchInvert(values: Field[]): Field[] {
+  const prefixes: Field[] = [];
+  let product = Field(1);
+  values.forEach((a, i) => {
+    if (a.equals(0).toBoolean())
+      throw Error(`Cannot invert zero, entry ${i} is zero.`);
+    product = product.mul(a);
+    prefixes.push(product);
+  });
+  if (values.length === 0) return [];
+
+  // inverse of a_0 · ... · a_i, starting from i = n-1
+  let inverse = product.inv();
+  const inverses: Field[] = Array(values.length);
+  for (let i = values.length - 1; i > 0; i--) {
+    inverses[i] = inverse.mul(prefixes[i - 1]);
+    inverse = inverse.mul(values[i]);
+  }
+  inverses[0] = inverse;
+  return inverses;
+}
@@ -0,0 +1,216 @@
+import { Field } from "o1js";
+
+/**
+ * Multilinear polynomial f~: F^v -> F given by its evaluation table over the boolean hypercube
+ *
+ * Entry i of the table is f(w) for the vertex w in {0,1}^v whose binary encoding is i, with x_0 the most significant
+ * bit, so the first half of the table has x_0 = 0 and the second half x_0 = 1. Since f~ is linear in x_0,
+ *   f~(r, x_1, ..., x_{v-1}) = (1 - r) · f~(0, x_1, ..., x_{v-1}) + r · f~(1, x_1, ..., x_{v-1})
+ * and fixing the first variable folds the table in half in O(2^v) time. Fixing every variable in turn evaluates f~
+ * in O(2^v) time overall, which is the bookkeeping table technique of Thaler section 4.2.
+ *
+ *   const f = new MultilinearPolynomial([Field(1), Field(2), Field(3), Field(4)]);
+ *   f.fixFirstVariable(Field(5)); // the table of f~(5, x_1), [Field(11), Field(12)]
+ */
+export class MultilinearPolynomial {
+  // number of variables
+  readonly v: number;
+
+  // the 2^v evaluations over {0,1}^v
+  private evaluations: Field[];
+
+  /**
+   * Creates an instance of the MultilinearPolynomial, right-padding the table with zeroes.
+   *
+   * @param evaluations - The evaluations f(0), ..., f(n-1).
+   * @param v - The number of variables, ceil(log_2(n)) if not supplied.
+   * @throws Error if there are more than 2^v evaluations, or none and v is not supplied.
+   */
+  constructor(evaluations: Field[], v?: number) {
+    if (v === undefined) {
+      if (evaluations.length === 0)
+        throw Error("The 'values' array cannot be empty.");
+      v = Math.ceil(Math.log2(evaluations.length));
+    }
+    if (!Number.isInteger(v) || v < 0)
+      throw Error(
+        `Number of variables must be a non-negative integer, received ${v}.`,
+      );
+    if (evaluations.length > 2 ** v)
+      throw Error(
+        `Received ${evaluations.length} evaluations, a ${v}-variate polynomial has at most ${2 ** v}.`,
+      );
+
+    this.v = v;
+    this.evaluations = [
+      ...evaluations,
+      ...Array.from({ length: 2 ** v - evaluations.length }, () => Field(0)),
+    ];
+  }
+
+  /**
+   * Computes the table of eq(x, r) = Π_i (x_i · r_i + (1 - x_i) · (1 - r_i)) for all x in {0,1}^v
+   * eq(w, r) is the Lagrange basis polynomial χ_w(r), so the table is built in O(2^v) time by doubling
+   * it once per coordinate of r (Thaler lemma 3.8).
+   *
+   * @param r - The point in F^v.
+   * @returns The polynomial eq(x, r) in the variables x.
+   */
+  static eq(r: Field[]): MultilinearPolynomial {
+    let table = [Field(1)];
+    for (const r_i of r) {
+      // x_i is the next most significant bit, so each entry is split into x_i = 0 followed by x_i = 1
+      table = table.flatMap((e) => {
+        const high = e.mul(r_i);
+        return [e.sub(high), high];
+      });
+    }
+    return new MultilinearPolynomial(table, r.length);
+  }
+
+  /**
+   * Gets the evaluation table of the polynomial
+   *
+   * @returns A copy of the 2^v evaluations over {0,1}^v.
+   */
+  getEvaluations(): Field[] {
+    return [...this.evaluations];
+  }
+
+  /**
+   * Gets the evaluation of the polynomial at a single vertex
+   *
+   * @param index - The index of the vertex, 0 <= index < 2^v.
+   * @returns f(w) for the vertex w encoded by index.
+   */
+  get(index: number): Field {
+    return this.evaluations[index];
+  }
+
+  /**
+   * Fixes x_0 to a field element by folding the table in half
+   *
+   * @param r - The value of x_0.
+   * @returns The (v-1)-variate polynomial f~(r, x_1, ..., x_{v-1}).
+   * @throws Error if the polynomial has no variables.
+   */
+  fixFirstVariable(r: Field): MultilinearPolynomial {
+    if (this.v === 0)
+      throw Error("Cannot fix a variable of a 0-variate polynomial.");
+    const half = this.evaluations.length / 2;
+    return new MultilinearPolynomial(
+      Array.from({ length: half }, (_, b) =>
+        this.evaluations[b].add(
+          this.evaluations[b + half].sub(this.evaluations[b]).mul(r),
+        ),
+      ),
+      this.v - 1,
+    );
+  }
+
+  /**
+   * Fixes the first k variables to field elements
+   *
+   * @param rs - The values of x_0, ..., x_{k-1}.
+   * @returns The (v-k)-variate polynomial f~(rs, x_k, ..., x_{v-1}).
+   * @throws Error if more than v values are supplied.
+   */
+  fixVariables(rs: Field[]): MultilinearPolynomial {
+    if (rs.length > this.v)
+      throw Error(
+        `Cannot fix ${rs.length} variables of a ${this.v}-variate polynomial.`,
+      );
+    return rs.reduce<MultilinearPolynomial>(
+      (f, r) => f.fixFirstVariable(r),
+      this,
+    );
+  }
+
+  /**
+   * Evaluates the polynomial at a point in F^v in O(2^v) time
+   *
+   * @param r - The point at which to evaluate.
+   * @returns The value f~(r).
+   * @throws Error if r does not have v entries.
+   */
+  evaluate(r: Field[]): Field {
+    if (r.length !== this.v)
+      throw Error(
+        `Incorrect input vector length, expected ${this.v} variables but received ${r.length}`,
+      );
+    return this.fixVariables(r).evaluations[0];
+  }
+
+  /**
+   * Adds two polynomials in the same number of variables
+   *
+   * @param other - The polynomial to add.
+   * @returns The sum of the polynomials.
+   */
+  add(other: MultilinearPolynomial): MultilinearPolynomial {
+    this.validateVariableCount(other);
+    return new MultilinearPolynomial(
+      this.evaluations.map((e, i) => e.add(other.evaluations[i])),
+      this.v,
+    );
+  }
+
+  /**
+   * Multiplies the polynomial by a constant
+   *
+   * @param c - The constant.
+   * @returns The polynomial c · f~.
+   */
+  scale(c: Field | number | bigint): MultilinearPolynomial {
+    return new MultilinearPolynomial(
+      this.evaluations.map((e) => e.mul(Field(c))),
+      this.v,
+    );
+  }
+
+  /**
+   * Multiplies the evaluation tables of polynomials entry by entry
+   * The product of multilinear polynomials is not multilinear in general, so the result is returned as a
+   * bookkeeping table: entry w is f_1(w) · ... · f_k(w), which agrees with the product only on {0,1}^v.
+   *
+   * @param others - The polynomials to multiply by.
+   * @returns The 2^v products over {0,1}^v.
+   */
+  pointwiseProduct(...others: MultilinearPolynomial[]): Field[] {
+    others.forEach((other) => this.validateVariableCount(other));
+    return this.evaluations.map((e, i) =>
+      others.reduce((product, other) => product.mul(other.evaluations[i]), e),
+    );
+  }
+
+  /**
+   * Sums the polynomial over the boolean hypercube
+   *
+   * @returns The sum of f(w) for all w in {0,1}^v.
+   */
+  sumOverHypercube(): Field {
+    return this.evaluations.reduce((sum, e) => sum.add(e), Field(0));
+  }
+
+  /**
+   * Checks whether two polynomials have the same evaluation table
+   *
+   * @param other - The polynomial to compare to.
+   * @returns True if the polynomials are equal.
+   */
+  equals(other: MultilinearPolynomial): boolean {
+    return (
+      this.v === other.v &&
+      this.evaluations.every((e, i) =>
+        e.equals(other.evaluations[i]).toBoolean(),
+      )
+    );
+  }
+
+  private validateVariableCount(other: MultilinearPolynomial) {
+    if (other.v !== this.v)
+      throw Error(
+        `Cannot combine a ${this.v}-variate polynomial with a ${other.v}-variate polynomial.`,
+      );
+  }
+}
@@ -0,0 +1,311 @@
+import { Field } from "o1js";
+
+/**
+ * Monomial c · x_0^e_0 · x_1^e_1 · ... · x_{v-1}^e_{v-1} of a multivariate polynomial
+ */
+export interface Term {
+  coefficient: Field;
+  // exponents[i] is the power of x_i, one entry per variable
+  exponents: number[];
+}
+
+/**
+ * Multivariate polynomial g: F^v -> F over the variables x_0, ..., x_{v-1} in sparse form
+ *
+ * Only the monomials with nonzero coefficients are stored, so a polynomial with T terms takes O(T · v) space
+ * regardless of its degree. Fixing or summing out variables eliminates them without renumbering the others:
+ * the result is still a v-variate polynomial, of degree 0 in each eliminated variable.
+ *
+ *   // g(x_0, x_1, x_2) = 2 x_0^3 x_1 + x_1 x_2 + 5
+ *   const g = new MultivariatePolynomial(3, [
+ *     { coefficient: Field(2), exponents: [3, 1, 0] },
+ *     { coefficient: Field(1), exponents: [0, 1, 1] },
+ *     { coefficient: Field(5), exponents: [0, 0, 0] },
+ *   ]);
+ */
+export class MultivariatePolynomial {
+  // number of variables
+  readonly v: number;
+
+  // nonzero terms keyed by their exponents, so that like terms are combined
+  private terms: Map<string, Term>;
+
+  /**
+   * Creates an instance of the MultivariatePolynomial, combining like terms.
+   *
+   * @param v - The number of variables.
+   * @param terms - The terms of the polynomial, each with v exponents.
+   * @throws Error if a term does not have v non-negative integer exponents.
+   */
+  constructor(v: number, terms: Term[] = []) {
+    if (!Number.isInteger(v) || v < 0)
+      throw Error(
+        `Number of variables must be a non-negative integer, received ${v}.`,
+      );
+    this.v = v;
+    this.terms = new Map();
+    terms.forEach(({ coefficient, exponents }, t) => {
+      if (
+        exponents.length !== v ||
+        !exponents.every((e) => Number.isInteger(e) && e >= 0)
+      )
+        throw Error(
+          `Term ${t} has exponents [${exponents.join(", ")}], expected ${v} non-negative integers.`,
+        );
+      this.addTerm(coefficient, exponents);
+    });
+  }
+
+  /**
+   * Creates the constant polynomial c in v variables
+   *
+   * @param v - The number of variables.
+   * @param c - The constant.
+   * @returns The polynomial g(x) = c.
+   */
+  static constant(
+    v: number,
+    c: Field | number | bigint,
+  ): MultivariatePolynomial {
+    return new MultivariatePolynomial(v, [
+      { coefficient: Field(c), exponents: Array(v).fill(0) },
+    ]);
+  }
+
+  /**
+   * Creates the polynomial x_i in v variables
+   *
+   * @param v - The number of variables.
+   * @param i - The index of the variable, 0 <= i < v.
+   * @returns The polynomial g(x) = x_i.
+   */
+  static variable(v: number, i: number): MultivariatePolynomial {
+    if (!Number.isInteger(i) || i < 0 || i >= v)
+      throw Error(
+        `Variable x_${i} does not exist in a ${v}-variate polynomial.`,
+      );
+    return new MultivariatePolynomial(v, [
+      {
+        coefficient: Field(1),
+        exponents: Array.from({ length: v }, (_, k) => (k === i ? 1 : 0)),
+      },
+    ]);
+  }
+
+  /**
+   * Gets the nonzero terms of the polynomial
+   *
+   * @returns A copy of the terms, in no particular order.
+   */
+  getTerms(): Term[] {
+    return [...this.terms.values()].map(({ coefficient, exponents }) => ({
+      coefficient,
+      exponents: [...exponents],
+    }));
+  }
+
+  /**
+   * Computes the degree of the polynomial in a single variable
+   *
+   * @param i - The index of the variable.
+   * @returns The largest power of x_i appearing in a term, 0 for the zero polynomial.
+   */
+  degree(i: number): number {
+    this.validateVariable(i);
+    let degree = 0;
+    this.terms.forEach(({ exponents }) => {
+      degree = Math.max(degree, exponents[i]);
+    });
+    return degree;
+  }
+
+  /**
+   * Computes the degree of the polynomial in each variable
+   *
+   * @returns degrees[i] is the degree of the polynomial in x_i.
+   */
+  degrees(): number[] {
+    return Array.from({ length: this.v }, (_, i) => this.degree(i));
+  }
+
+  /**
+   * Adds two polynomials in the same number of variables
+   *
+   * @param other - The polynomial to add.
+   * @returns The sum of the polynomials.
+   */
+  add(other: MultivariatePolynomial): MultivariatePolynomial {
+    this.validateVariableCount(other);
+    return new MultivariatePolynomial(this.v, [
+      ...this.getTerms(),
+      ...other.getTerms(),
+    ]);
+  }
+
+  /**
+   * Multiplies two polynomials in the same number of variables
+   * Takes O(T_1 · T_2 · v) time for polynomials with T_1 and T_2 terms
+   *
+   * @param other - The polynomial to multiply by.
+   * @returns The product of the polynomials.
+   */
+  mul(other: MultivariatePolynomial): MultivariatePolynomial {
+    this.validateVariableCount(other);
+    const product = new MultivariatePolynomial(this.v);
+    this.terms.forEach((a) =>
+      other.terms.forEach((b) =>
+        product.addTerm(
+          a.coefficient.mul(b.coefficient),
+          a.exponents.map((e, i) => e + b.exponents[i]),
+        ),
+      ),
+    );
+    return product;
+  }
+
+  /**
+   * Multiplies the polynomial by a constant
+   *
+   * @param c - The constant.
+   * @returns The polynomial c · g.
+   */
+  scale(c: Field | number | bigint): MultivariatePolynomial {
+    return new MultivariatePolynomial(
+      this.v,
+      this.getTerms().map(({ coefficient, exponents }) => ({
+        coefficient: coefficient.mul(Field(c)),
+        exponents,
+      })),
+    );
+  }
+
+  /**
+   * Evaluates the polynomial at a point in F^v
+   *
+   * @param x - The point at which to evaluate.
+   * @returns The value g(x).
+   * @throws Error if x does not have v entries.
+   */
+  evaluate(x: Field[]): Field {
+    if (x.length !== this.v)
+      throw Error(
+        `Incorrect input vector length, expected ${this.v} variables but received ${x.length}`,
+      );
+    let accumulator = Field(0);
+    this.terms.forEach(({ coefficient, exponents }) => {
+      accumulator = accumulator.add(
+        exponents.reduce(
+          (product, e, i) => (e === 0 ? product : product.mul(power(x[i], e))),
+          coefficient,
+        ),
+      );
+    });
+    return accumulator;
+  }
+
+  /**
+   * Fixes a subset of the variables to field elements
+   *
+   * @param values - Maps the index of each variable to fix to its value.
+   * @returns The polynomial g with x_i replaced by values(i), of degree 0 in each fixed variable.
+   */
+  fixVariables(values: Map<number, Field>): MultivariatePolynomial {
+    values.forEach((_, i) => this.validateVariable(i));
+    return new MultivariatePolynomial(
+      this.v,
+      this.getTerms().map(({ coefficient, exponents }) => {
+        values.forEach((value, i) => {
+          coefficient = coefficient.mul(power(value, exponents[i]));
+          exponents[i] = 0;
+        });
+        return { coefficient, exponents };
+      }),
+    );
+  }
+
+  /**
+   * Sums the polynomial over all boolean values of a subset of the variables
+   * Since b^e = b for b in {0,1} and e > 0, a term is summed over x_i in {0,1} by dropping x_i if it appears
+   * and doubling the coefficient if it does not, so this takes O(T · v) time rather than 2^k evaluations.
+   *
+   * @param variables - The indices of the k variables to sum over, all v variables if not supplied.
+   * @returns The sum over {0,1}^k of g, of degree 0 in each summed variable.
+   */
+  sumOverHypercube(
+    variables: number[] = Array.from({ length: this.v }, (_, i) => i),
+  ): MultivariatePolynomial {
+    variables.forEach((i) => this.validateVariable(i));
+    const summed = new Set(variables);
+    return new MultivariatePolynomial(
+      this.v,
+      this.getTerms().map(({ coefficient, exponents }) => {
+        summed.forEach((i) => {
+          if (exponents[i] === 0) coefficient = coefficient.mul(2);
+          exponents[i] = 0;
+        });
+        return { coefficient, exponents };
+      }),
+    );
+  }
+
+  /**
+   * Checks whether two polynomials have the same terms
+   *
+   * @param other - The polynomial to compare to.
+   * @returns True if the polynomials are equal.
+   */
+  equals(other: MultivariatePolynomial): boolean {
+    if (this.v !== other.v || this.terms.size !== other.terms.size)
+      return false;
+    return [...this.terms].every(([key, { coefficient }]) => {
+      const term = other.terms.get(key);
+      return (
+        term !== undefined && term.coefficient.equals(coefficient).toBoolean()
+      );
+    });
+  }
+
+  /**
+   * Adds c · x^exponents to the polynomial in place, removing the term if its coefficient becomes zero
+   *
+   * @param coefficient - The coefficient of the term.
+   * @param exponents - The exponents of the term.
+   */
+  private addTerm(coefficient: Field, exponents: number[]) {
+    const key = exponents.join(",");
+    const sum = (this.terms.get(key)?.coefficient ?? Field(0)).add(coefficient);
+    if (sum.equals(0).toBoolean()) this.terms.delete(key);
+    else this.terms.set(key, { coefficient: sum, exponents: [...exponents] });
+  }
+
+  private validateVariable(i: number) {
+    if (!Number.isInteger(i) || i < 0 || i >= this.v)
+      throw Error(
+        `Variable x_${i} does not exist in a ${this.v}-variate polynomial.`,
+      );
+  }
+
+  private validateVariableCount(other: MultivariatePolynomial) {
+    if (other.v !== this.v)
+      throw Error(
+        `Cannot combine a ${this.v}-variate polynomial with a ${other.v}-variate polynomial.`,
+      );
+  }
+}
+
+/**
+ * Computes x^e by repeated squaring
+ *
+ * @param x - The base.
+ * @param e - The non-negative integer exponent.
+ * @returns x^e
+ */
+function power(x: Field, e: number): Field {
+  let result = Field(1);
+  let base = x;
+  for (; e > 0; e >>= 1) {
+    if (e & 1) result = result.mul(base);
+    base = base.mul(base);
+  }
+  return result;
+}
@@ -0,0 +1,131 @@
+import { Field } from "o1js";
+import { getMultilinearLagrangeBasisAt } from "../sum-check/multilinear-lagrange.ts";
+
+/**
+ * Nonzero entry f(w) of a function f: {0,1}^d -> F, where w is the binary encoding of index
+ */
+export interface SparseEntry {
+  // index of the vertex w, with the most significant bit first
+  index: number;
+  value: Field;
+}
+
+/**
+ * Multilinear extension of a function f: {0,1}^d -> F stored as its nonzero evaluations
+ *
+ * The dense form of f is the table [f(0), f(1), ..., f(2^d - 1)] used by `getMultilinearLDE`. Storing only the nonzero
+ * entries takes O(nnz) space, and since f~(r) = Σ_w f(w) · χ_w(r) the terms with f(w) = 0 can be skipped, so evaluation
+ * takes O(nnz · d) time rather than O(2^d · d). This suits adjacency matrices and one-hot lookup tables.
+ *
+ *   // f(01) = 5 and f(11) = 7 on {0,1}^2
+ *   const f = new SparseMultilinearPolynomial(2, [
+ *     { index: 1, value: Field(5) },
+ *     { index: 3, value: Field(7) },
+ *   ]);
+ */
+export class SparseMultilinearPolynomial {
+  // number of variables
+  readonly d: number;
+
+  // nonzero evaluations keyed by vertex index
+  private entries: Map<number, Field>;
+
+  /**
+   * Creates an instance of the SparseMultilinearPolynomial, dropping zero entries.
+   *
+   * @param d - The number of variables, at most 53 so that every vertex index is a safe integer.
+   * @param entries - The evaluations of f, any vertex without an entry is zero.
+   * @throws Error if an index is outside {0, ..., 2^d - 1} or appears more than once.
+   */
+  constructor(d: number, entries: SparseEntry[] = []) {
+    if (!Number.isInteger(d) || d < 0 || d > 53)
+      throw Error(
+        `Number of variables must be an integer between 0 and 53, received ${d}.`,
+      );
+    this.d = d;
+    this.entries = new Map();
+    const seen = new Set<number>();
+    entries.forEach(({ index, value }) => {
+      if (!Number.isInteger(index) || index < 0 || index >= 2 ** d)
+        throw Error(
+          `Index ${index} is not a vertex of the ${d}-dimensional hypercube.`,
+        );
+      if (seen.has(index))
+        throw Error(`Index ${index} appears more than once.`);
+      seen.add(index);
+      if (!value.equals(0).toBoolean()) this.entries.set(index, value);
+    });
+  }
+
+  /**
+   * Creates the sparse form of a dense evaluation table
+   * As in `getMultilinearLDE`, a table of n values has d = ceil(log_2(n)) variables and is padded with zeroes.
+   *
+   * @param values - The evaluations f(0), ..., f(n-1).
+   * @returns The sparse multilinear extension of f.
+   * @throws Error if values is empty.
+   */
+  static fromDense(values: Field[]): SparseMultilinearPolynomial {
+    if (values.length === 0) throw Error("The 'values' array cannot be empty.");
+    return new SparseMultilinearPolynomial(
+      Math.ceil(Math.log2(values.length)),
+      values.map((value, index) => ({ index, value })),
+    );
+  }
+
+  /**
+   * Computes the dense evaluation table over the hypercube
+   *
+   * @returns The 2^d evaluations f(0), ..., f(2^d - 1).
+   */
+  toDense(): Field[] {
+    const values = Array.from({ length: 2 ** this.d }, () => Field(0));
+    this.entries.forEach((value, index) => {
+      values[index] = value;
+    });
+    return values;
+  }
+
+  /**
+   * Gets the nonzero evaluations of f
+   *
+   * @returns A copy of the entries, ordered by index.
+   */
+  getEntries(): SparseEntry[] {
+    return [...this.entries]
+      .sort(([a], [b]) => a - b)
+      .map(([index, value]) => ({ index, value }));
+  }
+
+  /**
+   * Gets the evaluation of f at a single vertex
+   *
+   * @param index - The index of the vertex.
+   * @returns f(w), zero if there is no entry at w.
+   */
+  get(index: number): Field {
+    return this.entries.get(index) ?? Field(0);
+  }
+
+  /**
+   * Evaluates the multilinear extension at a point in F^d
+   * Runs in O(nnz · d) time and O(1) additional memory.
+   *
+   * @param r - The point at which to evaluate.
+   * @returns The value f~(r).
+   * @throws Error if r does not have d entries.
+   */
+  evaluate(r: Field[]): Field {
+    if (r.length !== this.d)
+      throw Error(
+        `Incorrect input vector length, expected ${this.d} variables but received ${r.length}`,
+      );
+    let accumulator = Field(0);
+    this.entries.forEach((value, index) => {
+      accumulator = accumulator.add(
+        value.mul(getMultilinearLagrangeBasisAt(index, r)),
+      );
+    });
+    return accumulator;
+  }
+}
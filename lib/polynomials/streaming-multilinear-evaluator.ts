@@ -0,0 +1,67 @@
+import { Field } from "o1js";
+import { getMultilinearLagrangeBasisAt } from "../sum-check/multilinear-lagrange.ts";
+
+/**
+ * Evaluates the multilinear extension of a data stream at a fixed point in O(d) space (Thaler lemma 3.8)
+ *
+ * The stream is a sequence of turnstile updates (i, δ), each adding δ to entry i of a frequency vector
+ * f: {0,1}^d -> F that starts at zero. Since f~(r) = Σ_w f(w) · χ_w(r) is linear in f, an update changes f~(r) by
+ * δ · χ_i(r), which is computed in O(d) time from r alone. Only r and the running value are stored, so a verifier can
+ * fingerprint a stream of length 2^d without storing it: two streams with different frequency vectors agree at a
+ * random r with probability at most d/|F|.
+ *
+ *   const evaluator = new StreamingMultilinearEvaluator(r);
+ *   evaluator.update(5, 1); // insert item 5
+ *   evaluator.update(5, -1); // delete item 5
+ */
+export class StreamingMultilinearEvaluator {
+  // number of variables, the stream indexes 2^d entries
+  readonly d: number;
+
+  // evaluation point, fixed before the stream is read
+  private r: Field[];
+
+  // f~(r) for the updates processed so far
+  private value: Field;
+
+  /**
+   * Creates an instance of the StreamingMultilinearEvaluator for an all-zero frequency vector.
+   *
+   * @param r - The point in F^d at which to evaluate, at most 53 coordinates so every index is a safe integer.
+   */
+  constructor(r: Field[]) {
+    if (r.length > 53)
+      throw Error(
+        `Number of variables must be at most 53, received ${r.length}.`,
+      );
+    this.d = r.length;
+    this.r = [...r];
+    this.value = Field(0);
+  }
+
+  /**
+   * Processes the turnstile update f(index) += delta in O(d) time
+   *
+   * @param index - The index of the entry to update, with the most significant bit first.
+   * @param delta - The amount to add to the entry, negative for deletions.
+   * @throws Error if the index is outside {0, ..., 2^d - 1}.
+   */
+  update(index: number, delta: Field | number | bigint = 1) {
+    if (!Number.isInteger(index) || index < 0 || index >= 2 ** this.d)
+      throw Error(
+        `Index ${index} is not a vertex of the ${this.d}-dimensional hypercube.`,
+      );
+    this.value = this.value.add(
+      Field(delta).mul(getMultilinearLagrangeBasisAt(index, this.r)),
+    );
+  }
+
+  /**
+   * Gets the evaluation of the multilinear extension of the stream read so far
+   *
+   * @returns The value f~(r).
+   */
+  getValue(): Field {
+    return this.value;
+  }
+}
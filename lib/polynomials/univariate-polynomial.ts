@@ -0,0 +1,480 @@
+import { Field } from "o1js";
+
+/**
+ * The o1js base field is the Pallas base field F_p with p - 1 = 2^32 · t for odd t,
+ * so F_p contains a multiplicative subgroup of order 2^k for every k <= 32.
+ */
+export const TWO_ADICITY = 32;
+
+// 5 generates the multiplicative group of F_p, so 5^((p-1)/2^32) is a primitive 2^32-th root of unity
+const MULTIPLICATIVE_GENERATOR = 5n;
+
+// polynomials whose product has fewer coefficients than this are multiplied directly rather than with the NTT
+const NTT_THRESHOLD = 64;
+
+/**
+ * Dense univariate polynomial over F_p in coefficient form
+ *
+ * Multiplication of large polynomials uses the number theoretic transform (NTT) over the 2^k-th roots of unity,
+ * so multiplying two polynomials of degree n takes O(n log n) field operations. Division with remainder
+ * uses Newton iteration for the inverse of the reversed divisor, and multi-point evaluation and interpolation
+ * use a subproduct tree, for O(n log^2 n) field operations in total.
+ */
+export class UnivariatePolynomial {
+  // coefficients[i] is the coefficient of x^i, with no trailing zeroes
+  readonly coefficients: Field[];
+
+  /**
+   * Creates an instance of the UnivariatePolynomial.
+   *
+   * @param coefficients - The coefficients, from the constant term up. Trailing zeroes are removed.
+   */
+  constructor(coefficients: Field[]) {
+    let length = coefficients.length;
+    while (length > 0 && coefficients[length - 1].equals(0).toBoolean())
+      length--;
+    this.coefficients = coefficients.slice(0, length);
+  }
+
+  /**
+   * Creates the polynomial prod over i of (x - roots[i])
+   *
+   * @param roots - The roots of the polynomial.
+   * @returns The monic polynomial with the given roots.
+   */
+  static fromRoots(roots: Field[]): UnivariatePolynomial {
+    if (roots.length === 0) return new UnivariatePolynomial([Field(1)]);
+    return buildSubproductTree(roots).polynomial;
+  }
+
+  /**
+   * Computes the polynomial of degree less than n taking the values[i] at ω^i, where ω is a primitive nth root of unity
+   * Runs in O(n log n) time with the inverse NTT
+   *
+   * @param values - The evaluations over the nth roots of unity, n must be a power of 2.
+   * @returns The interpolating polynomial.
+   */
+  static interpolateOverDomain(values: Field[]): UnivariatePolynomial {
+    return new UnivariatePolynomial(inverseNtt(values));
+  }
+
+  /**
+   * Computes the unique polynomial of degree less than n taking the value values[i] at points[i]
+   * Runs in O(n log^2 n) time using a subproduct tree
+   *
+   * @param points - The n distinct interpolation points.
+   * @param values - The values at each point.
+   * @returns The interpolating polynomial.
+   * @throws Error if the points are not distinct or the number of points and values differ.
+   */
+  static interpolate(points: Field[], values: Field[]): UnivariatePolynomial {
+    if (points.length !== values.length)
+      throw Error(
+        `Received ${points.length} interpolation points but ${values.length} values.`,
+      );
+    if (points.length === 0) return new UnivariatePolynomial([]);
+
+    const tree = buildSubproductTree(points);
+    // the Lagrange basis polynomial for points[i] is M(x) / ((x - points[i]) · M'(points[i])) for M = prod (x - points[j])
+    const weights = evaluateOverTree(tree.polynomial.derivative(), tree);
+    const scaled = weights.map((w, i) => {
+      if (w.equals(0).toBoolean())
+        throw Error("Interpolation points must be distinct.");
+      return values[i].div(w);
+    });
+    return combineOverTree(tree, scaled);
+  }
+
+  /**
+   * Computes the degree of the polynomial
+   *
+   * @returns The degree, -1 for the zero polynomial.
+   */
+  degree(): number {
+    return this.coefficients.length - 1;
+  }
+
+  /**
+   * Evaluates the polynomial at a point with Horner's rule
+   *
+   * @param x - The point at which to evaluate.
+   * @returns The value of the polynomial at x.
+   */
+  evaluate(x: Field): Field {
+    let accumulator = Field(0);
+    for (let i = this.coefficients.length - 1; i >= 0; i--) {
+      accumulator = accumulator.mul(x).add(this.coefficients[i]);
+    }
+    return accumulator;
+  }
+
+  /**
+   * Evaluates the polynomial at many points
+   * Runs in O(n log^2 n) time for n points and a polynomial of degree O(n) using a subproduct tree
+   *
+   * @param points - The points at which to evaluate.
+   * @returns The values of the polynomial at each point.
+   */
+  evaluateMany(points: Field[]): Field[] {
+    if (points.length === 0) return [];
+    return evaluateOverTree(this, buildSubproductTree(points));
+  }
+
+  /**
+   * Evaluates the polynomial over the nth roots of unity 1, ω, ..., ω^(n-1)
+   * Runs in O(n log n) time with the NTT
+   *
+   * @param n - The size of the domain, a power of 2 greater than the degree.
+   * @returns The values of the polynomial at ω^0, ..., ω^(n-1).
+   * @throws Error if n is not a power of 2 or is not greater than the degree.
+   */
+  evaluateOverDomain(n: number): Field[] {
+    if (n <= this.degree())
+      throw Error(
+        `Cannot evaluate a polynomial of degree ${this.degree()} over a domain of size ${n}, the domain must be larger than the degree.`,
+      );
+    return ntt(padCoefficients(this.coefficients, n));
+  }
+
+  /**
+   * Adds two polynomials
+   *
+   * @param other - The polynomial to add.
+   * @returns The sum of the polynomials.
+   */
+  add(other: UnivariatePolynomial): UnivariatePolynomial {
+    const length = Math.max(
+      this.coefficients.length,
+      other.coefficients.length,
+    );
+    return new UnivariatePolynomial(
+      Array.from({ length }, (_, i) =>
+        (this.coefficients[i] ?? Field(0)).add(
+          other.coefficients[i] ?? Field(0),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Subtracts a polynomial
+   *
+   * @param other - The polynomial to subtract.
+   * @returns The difference of the polynomials.
+   */
+  sub(other: UnivariatePolynomial): UnivariatePolynomial {
+    return this.add(other.scale(-1));
+  }
+
+  /**
+   * Multiplies the polynomial by a constant
+   *
+   * @param c - The constant.
+   * @returns The polynomial c · f.
+   */
+  scale(c: Field | number | bigint): UnivariatePolynomial {
+    return new UnivariatePolynomial(
+      this.coefficients.map((a) => a.mul(Field(c))),
+    );
+  }
+
+  /**
+   * Multiplies two polynomials, with the NTT once the product is large enough
+   *
+   * @param other - The polynomial to multiply by.
+   * @returns The product of the polynomials.
+   */
+  mul(other: UnivariatePolynomial): UnivariatePolynomial {
+    const [a, b] = [this.coefficients, other.coefficients];
+    if (a.length === 0 || b.length === 0) return new UnivariatePolynomial([]);
+    const length = a.length + b.length - 1;
+
+    if (length < NTT_THRESHOLD) {
+      const product = Array.from({ length }, () => Field(0));
+      a.forEach((a_i, i) =>
+        b.forEach((b_j, j) => {
+          product[i + j] = product[i + j].add(a_i.mul(b_j));
+        }),
+      );
+      return new UnivariatePolynomial(product);
+    }
+
+    // evaluate both polynomials over a domain larger than the degree of the product, multiply pointwise and interpolate
+    const n = 2 ** Math.ceil(Math.log2(length));
+    const [evaluationsA, evaluationsB] = [
+      ntt(padCoefficients(a, n)),
+      ntt(padCoefficients(b, n)),
+    ];
+    return new UnivariatePolynomial(
+      inverseNtt(evaluationsA.map((e, i) => e.mul(evaluationsB[i]))),
+    );
+  }
+
+  /**
+   * Divides by another polynomial with remainder
+   * For a divisor of degree m and a quotient of degree k this takes O((k + m) log (k + m)) time
+   *
+   * @param divisor - The nonzero polynomial to divide by.
+   * @returns The quotient q and remainder r with this = q · divisor + r and deg(r) < deg(divisor).
+   * @throws Error if the divisor is zero.
+   */
+  divmod(divisor: UnivariatePolynomial): {
+    quotient: UnivariatePolynomial;
+    remainder: UnivariatePolynomial;
+  } {
+    const [n, m] = [this.degree(), divisor.degree()];
+    if (m < 0) throw Error("Cannot divide by the zero polynomial.");
+    if (n < m)
+      return { quotient: new UnivariatePolynomial([]), remainder: this };
+
+    // reversing x^n · a(1/x) = x^(n-m) · q(1/x) · x^m · b(1/x) + x^n · r(1/x) shows rev(q) = rev(a) / rev(b) mod x^(n-m+1)
+    const k = n - m + 1;
+    const reversedQuotient = truncate(
+      new UnivariatePolynomial(
+        [...this.coefficients].reverse().slice(0, k),
+      ).mul(invertSeries([...divisor.coefficients].reverse(), k)),
+      k,
+    );
+    const quotient = new UnivariatePolynomial(
+      padCoefficients(reversedQuotient.coefficients, k).reverse(),
+    );
+    return { quotient, remainder: this.sub(quotient.mul(divisor)) };
+  }
+
+  /**
+   * Computes the formal derivative of the polynomial
+   *
+   * @returns The polynomial sum over i of i · a_i · x^(i-1).
+   */
+  derivative(): UnivariatePolynomial {
+    return new UnivariatePolynomial(
+      this.coefficients.slice(1).map((a, i) => a.mul(i + 1)),
+    );
+  }
+
+  /**
+   * Checks whether two polynomials have the same coefficients
+   *
+   * @param other - The polynomial to compare to.
+   * @returns True if the polynomials are equal.
+   */
+  equals(other: UnivariatePolynomial): boolean {
+    return (
+      this.coefficients.length === other.coefficients.length &&
+      this.coefficients.every((a, i) =>
+        a.equals(other.coefficients[i]).toBoolean(),
+      )
+    );
+  }
+}
+
+/**
+ * Computes a primitive nth root of unity ω in F_p
+ *
+ * @param n - The order of the root, a power of 2 up to 2^32.
+ * @returns ω with ω^n = 1 and ω^(n/2) = -1.
+ * @throws Error if n is not a power of 2 or is larger than 2^32.
+ */
+export function getRootOfUnity(n: number): Field {
+  const log = Math.log2(n);
+  if (!Number.isInteger(log) || log > TWO_ADICITY)
+    throw Error(
+      `Roots of unity of order ${n} are not supported, n must be a power of 2 up to 2^${TWO_ADICITY}.`,
+    );
+  return power(
+    Field(MULTIPLICATIVE_GENERATOR),
+    (Field.ORDER - 1n) >> BigInt(log),
+  );
+}
+
+/**
+ * Computes the number theoretic transform of the coefficients of a polynomial of degree less than n,
+ * its evaluations over the nth roots of unity ω^0, ..., ω^(n-1)
+ * Uses the iterative radix-2 Cooley-Tukey algorithm, taking O(n log n) time
+ *
+ * @param coefficients - The n coefficients, n must be a power of 2.
+ * @returns The n evaluations.
+ */
+export function ntt(coefficients: Field[]): Field[] {
+  return transform(coefficients, getRootOfUnity(coefficients.length));
+}
+
+/**
+ * Computes the inverse number theoretic transform, the coefficients of the polynomial of degree less than n
+ * taking the given values over the nth roots of unity ω^0, ..., ω^(n-1)
+ *
+ * @param values - The n evaluations, n must be a power of 2.
+ * @returns The n coefficients.
+ */
+export function inverseNtt(values: Field[]): Field[] {
+  const n = values.length;
+  // the inverse transform is the forward transform with ω^(-1), scaled by 1/n
+  const nInverse = Field(n).inv();
+  return transform(values, getRootOfUnity(n).inv()).map((c) => c.mul(nInverse));
+}
+
+/**
+ * Evaluates a polynomial of degree less than n over the powers of a primitive nth root of unity
+ *
+ * @param coefficients - The n coefficients, n must be a power of 2.
+ * @param omega - A primitive nth root of unity.
+ * @returns The evaluations at omega^0, ..., omega^(n-1).
+ */
+function transform(coefficients: Field[], omega: Field): Field[] {
+  const n = coefficients.length;
+  const bits = Math.log2(n);
+
+  // place the coefficients in bit reversed order so that each butterfly pass works on contiguous blocks
+  const values = coefficients.map((_, i) => {
+    let reversed = 0;
+    for (let b = 0; b < bits; b++) reversed |= ((i >> b) & 1) << (bits - 1 - b);
+    return coefficients[reversed];
+  });
+
+  for (let size = 2; size <= n; size *= 2) {
+    // omega^(n/size) is a primitive root of unity of order size
+    const step = power(omega, BigInt(n / size));
+    for (let start = 0; start < n; start += size) {
+      let twiddle = Field(1);
+      for (let k = 0; k < size / 2; k++) {
+        const even = values[start + k];
+        const odd = values[start + k + size / 2].mul(twiddle);
+        values[start + k] = even.add(odd);
+        values[start + k + size / 2] = even.sub(odd);
+        twiddle = twiddle.mul(step);
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * Node of a subproduct tree over points p_0, ..., p_{n-1}, holding prod (x - p_i) over the points below it
+ */
+interface SubproductTree {
+  polynomial: UnivariatePolynomial;
+  children?: [SubproductTree, SubproductTree];
+}
+
+/**
+ * Builds the subproduct tree over a list of points, pairing adjacent subtrees at each level
+ *
+ * @param points - The points, at least one.
+ * @returns The root of the tree, holding prod over all i of (x - points[i]).
+ */
+function buildSubproductTree(points: Field[]): SubproductTree {
+  if (points.length === 1)
+    return {
+      polynomial: new UnivariatePolynomial([points[0].neg(), Field(1)]),
+    };
+  const middle = Math.ceil(points.length / 2);
+  const left = buildSubproductTree(points.slice(0, middle));
+  const right = buildSubproductTree(points.slice(middle));
+  return {
+    polynomial: left.polynomial.mul(right.polynomial),
+    children: [left, right],
+  };
+}
+
+/**
+ * Evaluates a polynomial at the points of a subproduct tree by reducing it modulo each node on the way down
+ *
+ * @param f - The polynomial.
+ * @param tree - The subproduct tree over the points.
+ * @returns The values of f at each point, in the order the tree was built from.
+ */
+function evaluateOverTree(
+  f: UnivariatePolynomial,
+  tree: SubproductTree,
+): Field[] {
+  const { remainder } = f.divmod(tree.polynomial);
+  // at a leaf x - p, the remainder is the constant f(p)
+  if (tree.children === undefined)
+    return [remainder.coefficients[0] ?? Field(0)];
+  return tree.children.flatMap((child) => evaluateOverTree(remainder, child));
+}
+
+/**
+ * Computes sum over i of c_i · M(x) / (x - p_i) for the points p_i of a subproduct tree with root M
+ *
+ * @param tree - The subproduct tree over the points.
+ * @param c - The coefficient c_i for each point.
+ * @returns The linear combination.
+ */
+function combineOverTree(
+  tree: SubproductTree,
+  c: Field[],
+): UnivariatePolynomial {
+  if (tree.children === undefined) return new UnivariatePolynomial([c[0]]);
+  const [left, right] = tree.children;
+  const middle = left.polynomial.degree();
+  return combineOverTree(left, c.slice(0, middle))
+    .mul(right.polynomial)
+    .add(combineOverTree(right, c.slice(middle)).mul(left.polynomial));
+}
+
+/**
+ * Computes the inverse of a power series modulo x^k with Newton iteration
+ * Each step doubles the precision of g with g <- g · (2 - f · g), for O(k log k) time in total
+ *
+ * @param f - The coefficients of the power series, with f[0] != 0.
+ * @param k - The number of coefficients of the inverse to compute.
+ * @returns The polynomial g of degree less than k with f · g = 1 mod x^k.
+ */
+function invertSeries(f: Field[], k: number): UnivariatePolynomial {
+  let g = new UnivariatePolynomial([f[0].inv()]);
+  for (let precision = 1; precision < k; ) {
+    precision = Math.min(2 * precision, k);
+    const fg = truncate(
+      new UnivariatePolynomial(f.slice(0, precision)).mul(g),
+      precision,
+    );
+    g = truncate(
+      g.mul(new UnivariatePolynomial([Field(2)]).sub(fg)),
+      precision,
+    );
+  }
+  return g;
+}
+
+/**
+ * Reduces a polynomial modulo x^k
+ *
+ * @param f - The polynomial.
+ * @param k - The number of coefficients to keep.
+ * @returns The polynomial made of the first k coefficients of f.
+ */
+function truncate(f: UnivariatePolynomial, k: number): UnivariatePolynomial {
+  return new UnivariatePolynomial(f.coefficients.slice(0, k));
+}
+
+/**
+ * Right-pads a list of coefficients with zeroes
+ *
+ * @param coefficients - The coefficients.
+ * @param n - The length to pad to.
+ * @returns The padded coefficients.
+ */
+function padCoefficients(coefficients: Field[], n: number): Field[] {
+  return [
+    ...coefficients,
+    ...Array.from({ length: n - coefficients.length }, () => Field(0)),
+  ];
+}
+
+/**
+ * Computes x^e by repeated squaring
+ *
+ * @param x - The base.
+ * @param e - The non-negative exponent.
+ * @returns x^e
+ */
+function power(x: Field, e: bigint): Field {
+  let result = Field(1);
+  let base = x;
+  for (; e > 0n; e >>= 1n) {
+    if (e & 1n) result = result.mul(base);
+    base = base.mul(base);
+  }
+  return result;
+}
@@ -0,0 +1,295 @@
+/**
+ * Boolean formula over the variables x_0, ..., x_{n-1}, represented as a tree of AND, OR and NOT gates
+ * AND and OR gates may have any number of operands
+ */
+export type BooleanFormula =
+  | { type: "variable"; index: number }
+  | { type: "not"; operand: BooleanFormula }
+  | { type: "and"; operands: BooleanFormula[] }
+  | { type: "or"; operands: BooleanFormula[] };
+
+/**
+ * Formula in conjunctive normal form, parsed from a DIMACS CNF file
+ */
+export interface CNF {
+  // number of variables declared in the problem line
+  numVariables: number;
+  // clauses as lists of DIMACS literals: i refers to x_{i-1}, -i to its negation
+  clauses: number[][];
+  // the formula AND(OR(literals) for each clause)
+  formula: BooleanFormula;
+}
+
+/**
+ * Creates a leaf of a formula referring to the variable x_index
+ *
+ * @param index - The zero-based index of the variable.
+ * @returns The formula x_index.
+ */
+export function variable(index: number): BooleanFormula {
+  if (!Number.isInteger(index) || index < 0)
+    throw Error(
+      `Variable index must be a non-negative integer, received ${index}.`,
+    );
+  return { type: "variable", index };
+}
+
+/**
+ * Creates the negation of a formula
+ *
+ * @param operand - The formula to negate.
+ * @returns The formula NOT operand.
+ */
+export function not(operand: BooleanFormula): BooleanFormula {
+  return { type: "not", operand };
+}
+
+/**
+ * Creates the conjunction of formulas
+ *
+ * @param operands - The formulas to combine, at least one is required.
+ * @returns The formula operands[0] AND operands[1] AND ...
+ */
+export function and(...operands: BooleanFormula[]): BooleanFormula {
+  if (operands.length === 0) throw Error("AND requires at least one operand.");
+  return { type: "and", operands };
+}
+
+/**
+ * Creates the disjunction of formulas
+ *
+ * @param operands - The formulas to combine, at least one is required.
+ * @returns The formula operands[0] OR operands[1] OR ...
+ */
+export function or(...operands: BooleanFormula[]): BooleanFormula {
+  if (operands.length === 0) throw Error("OR requires at least one operand.");
+  return { type: "or", operands };
+}
+
+/**
+ * Evaluates a formula on a boolean assignment of its variables
+ *
+ * @param formula - The formula to evaluate.
+ * @param assignment - assignment[i] is the value of x_i.
+ * @returns The value of the formula.
+ * @throws Error if the formula refers to a variable without an assigned value.
+ */
+export function evaluateFormula(
+  formula: BooleanFormula,
+  assignment: boolean[],
+): boolean {
+  switch (formula.type) {
+    case "variable":
+      if (formula.index >= assignment.length)
+        throw Error(
+          `Variable x_${formula.index} is not assigned, the assignment has ${assignment.length} variables.`,
+        );
+      return assignment[formula.index];
+    case "not":
+      return !evaluateFormula(formula.operand, assignment);
+    case "and":
+      return formula.operands.every((f) => evaluateFormula(f, assignment));
+    case "or":
+      return formula.operands.some((f) => evaluateFormula(f, assignment));
+  }
+}
+
+/**
+ * Counts the satisfying assignments of a formula by evaluating it at every assignment in {0,1}^n
+ * Runs in O(2^n · S) time for a formula of size S
+ *
+ * @param formula - The formula.
+ * @param n - The number of variables.
+ * @returns The number of satisfying assignments.
+ */
+export function countSatisfyingAssignments(
+  formula: BooleanFormula,
+  n: number,
+): number {
+  let count = 0;
+  for (let i = 0; i < 2 ** n; i++) {
+    // x_0 is the most significant bit, matching the variable order used by sum check
+    const assignment = Array.from(
+      { length: n },
+      (_, k) => ((i >> (n - 1 - k)) & 1) === 1,
+    );
+    if (evaluateFormula(formula, assignment)) count++;
+  }
+  return count;
+}
+
+/**
+ * Computes the size of a formula, the total number of gates and variable leaves in its tree
+ *
+ * @param formula - The formula.
+ * @returns The size of the formula.
+ */
+export function getFormulaSize(formula: BooleanFormula): number {
+  switch (formula.type) {
+    case "variable":
+      return 1;
+    case "not":
+      return 1 + getFormulaSize(formula.operand);
+    case "and":
+    case "or":
+      return formula.operands.reduce((size, f) => size + getFormulaSize(f), 1);
+  }
+}
+
+/**
+ * Parses a formula in DIMACS CNF format
+ *
+ *   c comment lines start with c
+ *   p cnf <number of variables> <number of clauses>
+ *   1 -3 0
+ *   2 3 -1 0
+ *
+ * Each clause is a list of non-zero literals terminated by 0 and may span several lines.
+ * The literal i refers to the variable x_{i-1} and -i to its negation.
+ *
+ * @param dimacs - The contents of a DIMACS CNF file.
+ * @returns The parsed formula.
+ * @throws Error if the file is malformed.
+ */
+export function parseDimacs(dimacs: string): CNF {
+  let numVariables: number | undefined;
+  let numClauses: number | undefined;
+  const clauses: number[][] = [];
+  let clause: number[] = [];
+
+  const lines = dimacs.split(/\r?\n/);
+  for (let lineNumber = 1; lineNumber <= lines.length; lineNumber++) {
+    const line = lines[lineNumber - 1].trim();
+    if (line === "" || line.startsWith("c")) continue;
+    // some benchmark files end with a % line
+    if (line.startsWith("%")) break;
+
+    if (line.startsWith("p")) {
+      const match = /^p\s+cnf\s+(\d+)\s+(\d+)$/.exec(line);
+      if (!match || numVariables !== undefined)
+        throw Error(`Invalid DIMACS problem line ${lineNumber}: "${line}".`);
+      numVariables = Number(match[1]);
+      numClauses = Number(match[2]);
+      continue;
+    }
+    if (numVariables === undefined)
+      throw Error(
+        `Line ${lineNumber} appears before the DIMACS problem line "p cnf <variables> <clauses>".`,
+      );
+
+    for (const token of line.split(/\s+/)) {
+      if (!/^-?\d+$/.test(token))
+        throw Error(`Invalid literal "${token}" on line ${lineNumber}.`);
+      const literal = Number(token);
+      if (literal === 0) {
+        clauses.push(clause);
+        clause = [];
+      } else if (Math.abs(literal) > numVariables) {
+        throw Error(
+          `Literal ${literal} on line ${lineNumber} refers to a variable greater than ${numVariables}.`,
+        );
+      } else {
+        clause.push(literal);
+      }
+    }
+  }
+
+  if (numVariables === undefined || numClauses === undefined)
+    throw Error('Missing DIMACS problem line "p cnf <variables> <clauses>".');
+  if (clause.length > 0) throw Error("The last clause is not terminated by 0.");
+  if (clauses.length !== numClauses)
+    throw Error(
+      `Expected ${numClauses} clauses but found ${clauses.length} clauses.`,
+    );
+  if (clauses.length === 0 || clauses.some((c) => c.length === 0))
+    throw Error(
+      "A CNF formula must have at least one clause and no empty clauses.",
+    );
+
+  const formula = and(
+    ...clauses.map((c) =>
+      or(
+        ...c.map((literal) =>
+          literal > 0 ? variable(literal - 1) : not(variable(-literal - 1)),
+        ),
+      ),
+    ),
+  );
+
+  return { numVariables, clauses, formula };
+}
+
+/**
+ * Parses an infix Boolean formula such as "(x1 & !x2) | ~x3"
+ *
+ * Variables are written x1, x2, ... and refer to x_0, x_1, ..., matching DIMACS numbering.
+ * NOT is written ! or ~, AND is written &, OR is written |.
+ * NOT binds tighter than AND, which binds tighter than OR, and parentheses may be used for grouping.
+ *
+ * @param text - The formula to parse.
+ * @returns The parsed formula.
+ * @throws Error if the formula is malformed.
+ */
+export function parseFormula(text: string): BooleanFormula {
+  const tokens = text.match(/x\d+|[!~&|()]|\S/g) ?? [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const expect = (token: string) => {
+    if (tokens[position] !== token)
+      throw Error(
+        `Expected "${token}" at token ${position + 1} but found ${tokens[position] === undefined ? "end of input" : `"${tokens[position]}"`}.`,
+      );
+    position++;
+  };
+
+  // or := and ("|" and)*
+  const parseOr = (): BooleanFormula => {
+    const operands = [parseAnd()];
+    while (peek() === "|") {
+      position++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : or(...operands);
+  };
+  // and := unary ("&" unary)*
+  const parseAnd = (): BooleanFormula => {
+    const operands = [parseUnary()];
+    while (peek() === "&") {
+      position++;
+      operands.push(parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : and(...operands);
+  };
+  // unary := ("!" | "~") unary | "(" or ")" | variable
+  const parseUnary = (): BooleanFormula => {
+    const token = peek();
+    if (token === "!" || token === "~") {
+      position++;
+      return not(parseUnary());
+    }
+    if (token === "(") {
+      position++;
+      const formula = parseOr();
+      expect(")");
+      return formula;
+    }
+    if (token !== undefined && /^x\d+$/.test(token)) {
+      position++;
+      const index = Number(token.slice(1));
+      if (index < 1)
+        throw Error(`Variables are numbered from x1, found "${token}".`);
+      return variable(index - 1);
+    }
+    throw Error(
+      `Unexpected ${token === undefined ? "end of input" : `token "${token}"`} at token ${position + 1}.`,
+    );
+  };
+
+  const formula = parseOr();
+  if (position !== tokens.length)
+    throw Error(
+      `Unexpected token "${tokens[position]}" at token ${position + 1}.`,
+    );
+  return formula;
+}
@@ -0,0 +1,151 @@
+import { Field } from "o1js";
+import { BooleanFormula, getFormulaSize } from "./boolean-formula.ts";
+import {
+  OracleProver,
+  OracleVerifier,
+  PolynomialOracle,
+} from "../sum-check/oracle-sum-check.ts";
+
+/**
+ * Interactive proof for #SAT (Thaler section 4.2)
+ *
+ * A Boolean formula φ over n variables is arithmetized into a polynomial g: F^n -> F that agrees with φ on {0,1}^n
+ * by replacing each gate with a polynomial:
+ *   NOT(a)         -> 1 - a
+ *   AND(a, b, ...) -> a · b · ...
+ *   OR(a, b, ...)  -> 1 - (1 - a) · (1 - b) · ...
+ * The number of satisfying assignments of φ is then the sum of g over {0,1}^n, which is proven with sum check.
+ *
+ * The degree of g in x_i is at most the number of leaves of the formula tree labelled x_i,
+ * and the verifier's final oracle query evaluates g at a single point in O(S) time for a formula of size S.
+ */
+
+/**
+ * Arithmetization of a Boolean formula
+ */
+export interface Arithmetization {
+  // number of variables in the formula
+  n: number;
+  // oracle for evaluating the arithmetized polynomial g at any point in F^n
+  g: PolynomialOracle;
+  // degrees[i] is an upper bound on the degree of g in x_i
+  degrees: number[];
+  // number of gates and variable leaves in the formula
+  size: number;
+}
+
+/**
+ * Arithmetizes a Boolean formula over the variables x_0, ..., x_{n-1}
+ *
+ * @param formula - The formula to arithmetize.
+ * @param n - The number of variables.
+ * @returns The arithmetized polynomial along with its per-variable degrees and the formula size.
+ * @throws Error if the formula refers to a variable outside x_0, ..., x_{n-1}.
+ */
+export function arithmetize(
+  formula: BooleanFormula,
+  n: number,
+): Arithmetization {
+  if (!Number.isInteger(n) || n < 1)
+    throw Error(
+      `Number of variables must be a positive integer, received ${n}.`,
+    );
+
+  const degrees = Array.from({ length: n }, () => 0);
+  countVariableOccurrences(formula, degrees);
+
+  const g: PolynomialOracle = (x) => {
+    if (x.length !== n)
+      throw Error(
+        `Incorrect input vector length, expected ${n} variables but received ${x.length}`,
+      );
+    return evaluateArithmetization(formula, x);
+  };
+
+  return { n, g, degrees, size: getFormulaSize(formula) };
+}
+
+/**
+ * Runs the sum check protocol proving the number of satisfying assignments of a formula
+ *
+ * @param formula - The formula.
+ * @param n - The number of variables.
+ * @param claimedCount - The number of satisfying assignments claimed by the prover, computed honestly if not supplied.
+ * @returns The verified number of satisfying assignments.
+ * @throws Error if the verifier rejects.
+ */
+export function proveSatisfyingAssignmentCount(
+  formula: BooleanFormula,
+  n: number,
+  claimedCount?: Field,
+): Field {
+  const { g, degrees } = arithmetize(formula, n);
+
+  const prover = new OracleProver(g, degrees);
+  const count = claimedCount ?? prover.getProposedSum();
+  const verifier = new OracleVerifier(count, degrees);
+
+  let r_j = undefined;
+  for (let j = 1; j <= n; j++) {
+    const g_j = prover.getRoundJPolynomial(r_j);
+    r_j = verifier.verifyRoundJPolynomial(g_j);
+  }
+  // the verifier evaluates the arithmetized formula itself in O(S) time
+  verifier.verifyOracleQueryOfG(g);
+
+  return count;
+}
+
+/**
+ * Evaluates the arithmetization of a formula at a point in F^n
+ *
+ * @param formula - The formula.
+ * @param x - The point at which to evaluate.
+ * @returns The value of the arithmetized formula at x.
+ */
+function evaluateArithmetization(formula: BooleanFormula, x: Field[]): Field {
+  switch (formula.type) {
+    case "variable":
+      return x[formula.index];
+    case "not":
+      return Field(1).sub(evaluateArithmetization(formula.operand, x));
+    case "and":
+      return formula.operands.reduce(
+        (product, f) => product.mul(evaluateArithmetization(f, x)),
+        Field(1),
+      );
+    case "or":
+      return Field(1).sub(
+        formula.operands.reduce(
+          (product, f) =>
+            product.mul(Field(1).sub(evaluateArithmetization(f, x))),
+          Field(1),
+        ),
+      );
+  }
+}
+
+/**
+ * Counts the leaves labelled by each variable, an upper bound on the degree of the arithmetization in that variable
+ *
+ * @param formula - The formula.
+ * @param counts - counts[i] is incremented for every leaf labelled x_i.
+ */
+function countVariableOccurrences(formula: BooleanFormula, counts: number[]) {
+  switch (formula.type) {
+    case "variable":
+      if (formula.index >= counts.length)
+        throw Error(
+          `Formula refers to x_${formula.index} but only has ${counts.length} variables.`,
+        );
+      counts[formula.index]++;
+      return;
+    case "not":
+      countVariableOccurrences(formula.operand, counts);
+      return;
+    case "and":
+    case "or":
+      formula.operands.forEach((f) => countVariableOccurrences(f, counts));
+      return;
+  }
+}
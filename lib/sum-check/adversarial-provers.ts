@@ -0,0 +1,288 @@
+import { Field } from "o1js";
+import {
+  OracleProver,
+  OracleVerifier,
+  PolynomialOracle,
+} from "./oracle-sum-check.ts";
+import { ChallengeSource } from "./challenge-source.ts";
+import { getUnivariateLDE } from "./univariate-lagrange.ts";
+import { Verifier as IterativeVerifier } from "./sum-check-iterative-verifier.ts";
+import { Verifier as RecursiveVerifier } from "./sum-check-recursive-verifier.ts";
+import { MultivariatePolynomial } from "../polynomials/multivariate-polynomial.ts";
+
+/**
+ * Malicious sum check provers and a harness measuring how often they fool the verifier
+ *
+ * Each prover claims a false sum H + δ for the true sum H of g and follows a different strategy to defend it.
+ * The harness plays a prover against one of the sum check verifiers many times over a small challenge space S and
+ * reports the fraction of accepted runs next to the soundness error Σ_j deg_j(g) / |S|. An acceptance rate above the
+ * bound means the verifier is broken, for example because it checks a round polynomial against the wrong claim.
+ * The verifiers have different interfaces, so each is wrapped in a `SumCheckVerifier` by a `VerifierFactory`.
+ */
+
+/**
+ * Messages sent by a sum check prover
+ */
+export interface SumCheckProver {
+  getProposedSum(): Field;
+  getRoundJPolynomial(r_prev?: Field): Field[];
+}
+
+/**
+ * Common interface of the sum check verifiers, as driven by the harness
+ */
+export interface SumCheckVerifier {
+  // verifies the round polynomial g_j and returns the challenge r_j
+  verifyRound(g_j: Field[]): Field;
+  // verifies g(r) = g_v(r_v) once every round polynomial has been verified
+  verifyFinalEvaluation(): void;
+  // theoretical upper bound on the acceptance probability of a false claim
+  getSoundnessError(): number;
+}
+
+/**
+ * Creates a verifier for a proposed sum, drawing its challenges from the given source
+ */
+export type VerifierFactory = (
+  proposedSum: Field,
+  challengeSource: ChallengeSource,
+) => SumCheckVerifier;
+
+/**
+ * Outcome of playing a prover against the verifier repeatedly
+ */
+export interface AcceptanceRate {
+  // number of runs of the protocol
+  trials: number;
+  // number of runs the verifier accepted
+  accepted: number;
+  // accepted / trials
+  rate: number;
+  // theoretical upper bound on the acceptance probability of a false claim
+  soundnessError: number;
+}
+
+/**
+ * Prover that claims H + δ and then sends the honest round polynomials
+ * g_1(0) + g_1(1) = H != H + δ, so the verifier always rejects in round 1.
+ */
+export class LyingSumProver implements SumCheckProver {
+  // honest prover for g
+  private prover: OracleProver;
+
+  // amount added to the true sum
+  private delta: Field;
+
+  /**
+   * Creates an instance of the LyingSumProver.
+   *
+   * @param g - Oracle for evaluating the polynomial g
+   * @param degrees - Upper bounds on the degree of g in each variable
+   * @param delta - The nonzero amount by which the claimed sum is wrong
+   */
+  constructor(g: PolynomialOracle, degrees: number[], delta: Field = Field(1)) {
+    this.prover = new OracleProver(g, degrees);
+    this.delta = delta;
+  }
+
+  getProposedSum(): Field {
+    return this.prover.getProposedSum().add(this.delta);
+  }
+
+  getRoundJPolynomial(r_prev?: Field): Field[] {
+    return this.prover.getRoundJPolynomial(r_prev);
+  }
+}
+
+/**
+ * Prover that claims H + δ and adapts each round polynomial to stay consistent with its previous lies
+ *
+ * If the claim for round j exceeds the honest value g_j(0) + g_j(1) by e_j, the prover sends g_j + e_j · L_0, where
+ * L_0 is the Lagrange basis polynomial over {0, 1, ..., d_j} that is 1 at 0 and vanishes at 1, ..., d_j. The sum check
+ * passes, and the next claim is off by e_{j+1} = e_j · L_0(r_j). If r_j is one of the d_j roots of L_0 the lie
+ * disappears and the prover is honest from then on, otherwise it is caught at the oracle query. Each round succeeds
+ * with probability d_j / |S| for uniform challenges, so the overall success probability is close to the soundness
+ * error.
+ */
+export class AdaptiveProver implements SumCheckProver {
+  // honest prover for g
+  private prover: OracleProver;
+
+  // amount added to the true sum
+  private delta: Field;
+
+  // e_j · L_0 at the points 0, 1, ..., d_j for the last round polynomial sent
+  private lie: Field[] = [];
+
+  /**
+   * Creates an instance of the AdaptiveProver.
+   *
+   * @param g - Oracle for evaluating the polynomial g
+   * @param degrees - Upper bounds on the degree of g in each variable, each at least 1
+   * @param delta - The nonzero amount by which the claimed sum is wrong
+   */
+  constructor(g: PolynomialOracle, degrees: number[], delta: Field = Field(1)) {
+    this.prover = new OracleProver(g, degrees);
+    this.delta = delta;
+  }
+
+  getProposedSum(): Field {
+    return this.prover.getProposedSum().add(this.delta);
+  }
+
+  getRoundJPolynomial(r_prev?: Field): Field[] {
+    const g_j = this.prover.getRoundJPolynomial(r_prev);
+    // the discrepancy carried into this round, e_1 = δ
+    const error =
+      r_prev === undefined ? this.delta : getUnivariateLDE(this.lie, r_prev);
+    this.lie = g_j.map((_, t) => (t === 0 ? error : Field(0)));
+    return g_j.map((e, t) => e.add(this.lie[t]));
+  }
+}
+
+/**
+ * Prover that runs the honest protocol for a different polynomial g' = g + δ · Π_i (1 - x_i) with sum H + δ
+ * Every round check passes and the lie is only caught at the oracle query, where g(r) = g'(r) exactly when
+ * some r_i = 1.
+ */
+export class WrongPolynomialProver implements SumCheckProver {
+  // honest prover for g'
+  private prover: OracleProver;
+
+  /**
+   * Creates an instance of the WrongPolynomialProver.
+   *
+   * @param g - Oracle for evaluating the polynomial g
+   * @param degrees - Upper bounds on the degree of g in each variable, each at least 1
+   * @param delta - The nonzero amount by which the claimed sum is wrong
+   */
+  constructor(g: PolynomialOracle, degrees: number[], delta: Field = Field(1)) {
+    this.prover = new OracleProver(
+      (x) =>
+        g(x).add(
+          x.reduce((product, x_i) => product.mul(Field(1).sub(x_i)), delta),
+        ),
+      degrees,
+    );
+  }
+
+  getProposedSum(): Field {
+    return this.prover.getProposedSum();
+  }
+
+  getRoundJPolynomial(r_prev?: Field): Field[] {
+    return this.prover.getRoundJPolynomial(r_prev);
+  }
+}
+
+/**
+ * Wraps `OracleVerifier`, which queries g through an oracle
+ *
+ * @param g - Oracle for evaluating the polynomial g
+ * @param degrees - Upper bounds on the degree of g in each variable
+ * @returns A factory for verifiers of the sum of g.
+ */
+export function oracleVerifier(
+  g: PolynomialOracle,
+  degrees: number[],
+): VerifierFactory {
+  return (proposedSum, challengeSource) => {
+    const verifier = new OracleVerifier(proposedSum, degrees, challengeSource);
+    return {
+      verifyRound: (g_j) => verifier.verifyRoundJPolynomial(g_j),
+      verifyFinalEvaluation: () => verifier.verifyOracleQueryOfG(g),
+      getSoundnessError: () => verifier.getSoundnessError(),
+    };
+  };
+}
+
+/**
+ * Wraps the `Verifier` of sum-check-iterative-verifier.ts
+ *
+ * @param g - The point-value representation of a multilinear g, or the polynomial g
+ * @param v - The number of variables in g
+ * @returns A factory for verifiers of the sum of g.
+ */
+export function iterativeVerifier(
+  g: Field[] | MultivariatePolynomial,
+  v: number,
+): VerifierFactory {
+  const degrees = g instanceof MultivariatePolynomial ? g.degrees() : undefined;
+  return (proposedSum, challengeSource) => {
+    const verifier = new IterativeVerifier(
+      proposedSum,
+      v,
+      degrees,
+      challengeSource,
+    );
+    return {
+      verifyRound: (g_j) => verifier.verifyRoundJPolynomial(g_j),
+      verifyFinalEvaluation: () => verifier.verifyOracleQueryOfG(g),
+      getSoundnessError: () => verifier.getSoundnessError(),
+    };
+  };
+}
+
+/**
+ * Wraps the `Verifier` of sum-check-recursive-verifier.ts
+ * That verifier checks g(r) = g_v(r_v) as part of the last round, so there is nothing left to do afterwards.
+ *
+ * @param g - The point-value representation of a multilinear g, or the polynomial g
+ * @param v - The number of variables in g
+ * @returns A factory for verifiers of the sum of g.
+ */
+export function recursiveVerifier(
+  g: Field[] | MultivariatePolynomial,
+  v: number,
+): VerifierFactory {
+  return (proposedSum, challengeSource) => {
+    const verifier = new RecursiveVerifier(proposedSum, g, v, challengeSource);
+    return {
+      verifyRound: (g_j) => verifier.roundJ(g_j),
+      verifyFinalEvaluation: () => {},
+      getSoundnessError: () => verifier.getSoundnessError(),
+    };
+  };
+}
+
+/**
+ * Plays a prover against a verifier repeatedly and measures how often the verifier accepts
+ *
+ * @param createVerifier - Creates a fresh verifier for each run, see `oracleVerifier`, `iterativeVerifier` and
+ *                         `recursiveVerifier`
+ * @param v - The number of variables in g, the number of rounds of each run
+ * @param createProver - Creates a fresh prover for each run
+ * @param trials - The number of runs
+ * @param challengeSource - The source of the verifier's challenges, shared by all runs
+ * @returns The empirical acceptance rate along with the theoretical soundness error.
+ */
+export function measureAcceptanceRate(
+  createVerifier: VerifierFactory,
+  v: number,
+  createProver: () => SumCheckProver,
+  trials: number,
+  challengeSource: ChallengeSource,
+): AcceptanceRate {
+  if (!Number.isInteger(trials) || trials < 1)
+    throw Error("Number of trials must be a positive integer.");
+
+  let accepted = 0;
+  let soundnessError = 0;
+  for (let trial = 0; trial < trials; trial++) {
+    const prover = createProver();
+    const verifier = createVerifier(prover.getProposedSum(), challengeSource);
+    soundnessError = verifier.getSoundnessError();
+    try {
+      let r_j = undefined;
+      for (let j = 1; j <= v; j++) {
+        r_j = verifier.verifyRound(prover.getRoundJPolynomial(r_j));
+      }
+      verifier.verifyFinalEvaluation();
+      accepted++;
+    } catch {
+      // the verifier rejected this run
+    }
+  }
+
+  return { trials, accepted, rate: accepted / trials, soundnessError };
+}
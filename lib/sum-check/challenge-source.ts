@@ -0,0 +1,198 @@
+import { Field } from "o1js";
+import { Transcript } from "./transcript.ts";
+
+/**
+ * Sources of verifier challenges
+ *
+ * Sum check style protocols are sound because a cheating prover's round polynomial differs from the honest one, and
+ * two distinct polynomials of degree at most d agree on at most d points. If challenges are drawn uniformly from a set
+ * S, a round therefore fools the verifier with probability at most d/|S|, and a union bound over the rounds gives the
+ * soundness error Σ_j d_j / |S| (v · d / |S| when every round has degree d). Every source samples from S = {0, ..., size - 1}
+ * so that the error can be reported for the configured challenge space, the whole field by default.
+ */
+
+/**
+ * Source of the random challenges sent by a verifier
+ */
+export interface ChallengeSource {
+  // number of distinct challenges, |S|
+  readonly size: bigint;
+  // returns the next challenge in S
+  next(): Field;
+}
+
+/**
+ * Challenge source sampling uniformly from S with a cryptographically secure random number generator
+ */
+export class RandomChallengeSource implements ChallengeSource {
+  readonly size: bigint;
+
+  /**
+   * Creates an instance of the RandomChallengeSource.
+   *
+   * @param size - The size of the challenge space S = {0, ..., size - 1}, the whole field by default.
+   */
+  constructor(size: bigint = Field.ORDER) {
+    validateSize(size);
+    this.size = size;
+  }
+
+  next(): Field {
+    return sampleBelow(this.size, (bytes) => crypto.getRandomValues(bytes));
+  }
+}
+
+/**
+ * Deterministic challenge source for reproducible tests, sampling from S with a seeded SplitMix64 generator
+ * The challenges are uniform over S for practical purposes but predictable from the seed, so this source must not
+ * be used where soundness matters.
+ */
+export class SeededChallengeSource implements ChallengeSource {
+  readonly size: bigint;
+
+  // SplitMix64 state
+  private state: bigint;
+
+  /**
+   * Creates an instance of the SeededChallengeSource.
+   *
+   * @param seed - The seed, the same seed always produces the same challenges.
+   * @param size - The size of the challenge space S = {0, ..., size - 1}, the whole field by default.
+   */
+  constructor(seed: number | bigint, size: bigint = Field.ORDER) {
+    validateSize(size);
+    this.size = size;
+    this.state = BigInt.asUintN(64, BigInt(seed));
+  }
+
+  next(): Field {
+    return sampleBelow(this.size, (bytes) => {
+      for (let i = 0; i < bytes.length; i += 8) {
+        let word = this.nextWord();
+        for (let k = i; k < Math.min(i + 8, bytes.length); k++) {
+          bytes[k] = Number(word & 0xffn);
+          word >>= 8n;
+        }
+      }
+      return bytes;
+    });
+  }
+
+  /**
+   * Advances the SplitMix64 generator
+   *
+   * @returns The next 64-bit output.
+   */
+  private nextWord(): bigint {
+    this.state = BigInt.asUintN(64, this.state + 0x9e3779b97f4a7c15n);
+    let z = this.state;
+    z = BigInt.asUintN(64, (z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n);
+    z = BigInt.asUintN(64, (z ^ (z >> 27n)) * 0x94d049bb133111ebn);
+    return z ^ (z >> 31n);
+  }
+}
+
+/**
+ * Challenge source replaying a fixed list of challenges, for driving a verifier into a chosen state
+ * The challenges may be any field elements, so the challenge space is taken to be the whole field.
+ */
+export class ScriptedChallengeSource implements ChallengeSource {
+  readonly size: bigint = Field.ORDER;
+
+  // challenges that have not been replayed yet
+  private challenges: Field[];
+
+  // number of challenges replayed so far
+  private used = 0;
+
+  /**
+   * Creates an instance of the ScriptedChallengeSource.
+   *
+   * @param challenges - The challenges to return, in order.
+   */
+  constructor(challenges: (Field | number | bigint)[]) {
+    this.challenges = challenges.map((c) => Field(c));
+  }
+
+  next(): Field {
+    const challenge = this.challenges.shift();
+    if (challenge === undefined)
+      throw Error(
+        `Scripted challenge source ran out of challenges after ${this.used} challenges.`,
+      );
+    this.used++;
+    return challenge;
+  }
+}
+
+/**
+ * Challenge source squeezing each challenge from a Fiat-Shamir transcript, for running a verifier non-interactively
+ * The caller absorbs each prover message into the transcript before handing it to the verifier. Squeezing only uses
+ * Poseidon, so the challenges can also be derived inside an o1js circuit.
+ */
+export class TranscriptChallengeSource implements ChallengeSource {
+  readonly size: bigint = Field.ORDER;
+
+  // transcript the challenges are squeezed from
+  private transcript: Transcript;
+
+  /**
+   * Creates an instance of the TranscriptChallengeSource.
+   *
+   * @param transcript - The transcript, with the statement already absorbed.
+   */
+  constructor(transcript: Transcript) {
+    this.transcript = transcript;
+  }
+
+  next(): Field {
+    return this.transcript.squeeze();
+  }
+}
+
+/**
+ * Computes the soundness error of a sum check over challenges drawn uniformly from S
+ *
+ * @param degrees - The degree bound of the round polynomial in each round.
+ * @param size - The size of the challenge space, |S|.
+ * @returns The bound Σ_j d_j / |S| on the probability of accepting a false claim, capped at 1.
+ */
+export function getSoundnessError(degrees: number[], size: bigint): number {
+  const total = degrees.reduce((sum, d) => sum + d, 0);
+  return Math.min(1, total / Number(size));
+}
+
+/**
+ * Samples uniformly from {0, ..., size - 1} by rejection sampling
+ * Draws just enough random bits to cover size - 1, so each attempt succeeds with probability above 1/2.
+ *
+ * @param size - The number of possible values.
+ * @param fill - Fills a byte array with random bytes and returns it.
+ * @returns A uniformly random field element below size.
+ */
+function sampleBelow(
+  size: bigint,
+  fill: (bytes: Uint8Array) => Uint8Array,
+): Field {
+  const bits = (size - 1n).toString(2).length;
+  const bytes = new Uint8Array(Math.ceil(bits / 8));
+  for (;;) {
+    let value = 0n;
+    for (const byte of fill(bytes)) value = (value << 8n) | BigInt(byte);
+    value = BigInt.asUintN(bits, value);
+    if (value < size) return Field(value);
+  }
+}
+
+/**
+ * Validates the size of a challenge space
+ *
+ * @param size - The number of possible challenges.
+ * @throws Error if the challenge space has fewer than 2 elements or more than the field.
+ */
+function validateSize(size: bigint) {
+  if (size < 2n || size > Field.ORDER)
+    throw Error(
+      `Challenge space size must be between 2 and the field order, received ${size}.`,
+    );
+}
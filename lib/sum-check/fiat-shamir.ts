@@ -0,0 +1,192 @@
+import { Field, Poseidon } from "o1js";
+import { isProduct, LinearTimeProver } from "./linear-time-prover.ts";
+import { getMultilinearLDE } from "./multilinear-lagrange.ts";
+import { PolynomialOracle } from "./oracle-sum-check.ts";
+import { Transcript } from "./transcript.ts";
+import { getUnivariateLDE } from "./univariate-lagrange.ts";
+
+/**
+ * Non-interactive sum check via the Fiat-Shamir transformation (Thaler section 5.2)
+ *
+ * The verifier's random challenges r_j are replaced by challenges squeezed from a Poseidon transcript.
+ * To avoid the weak Fiat-Shamir pitfall, where a prover chooses the statement after seeing the challenges,
+ * the transcript absorbs the domain separator, the number of variables, the degree bound, a Poseidon commitment
+ * to g and the claimed sum before any round polynomial. Without the commitment a prover could pick g after seeing
+ * r, for example by changing a single evaluation so that g(r) = g_v(r_v) for a false claim. Each round polynomial g_j
+ * is absorbed along with its length before r_j is squeezed.
+ *
+ * The proof carries the degree bound and the commitment it was produced for. A verifier holding the evaluations of g
+ * recomputes the commitment, a verifier with only an oracle has to make sure the oracle evaluates the committed g.
+ */
+
+/**
+ * Domain separator for sum check transcripts
+ */
+export const SUM_CHECK_DOMAIN_SEPARATOR = "proofs-args-zk/sum-check/v1";
+
+/**
+ * Non-interactive sum check proof
+ */
+export interface SumCheckProof {
+  // number of variables in g
+  v: number;
+  // upper bound on the degree of g in each variable, the number of multilinear factors of g
+  degree: number;
+  // commitment to g absorbed into the transcript, see `commitToPolynomial`
+  commitment: Field;
+  // point value representations of g_1, ..., g_v at the points 0, 1, ..., deg(g_j)
+  roundPolynomials: Field[][];
+}
+
+/**
+ * Result of verifying a sum check proof
+ */
+export interface SumCheckVerification {
+  // challenges r_1, ..., r_v derived from the transcript
+  r: Field[];
+  // the value g(r) = g_v(r_v) checked against the oracle
+  finalEvaluation: Field;
+}
+
+/**
+ * Commits to the polynomial g whose sum is proven
+ * The point value form of each multilinear factor is hashed with Poseidon, and the hashes of the factors are hashed
+ * together, so a multilinear g given as a single table is committed to as a product with one factor.
+ * Only uses Field arithmetic and Poseidon, so it can also be run inside an o1js circuit.
+ *
+ * @param g - The point-value representation of a multilinear g, or of each factor f_i of g = f_1 · ... · f_k
+ * @returns The commitment to g.
+ */
+export function commitToPolynomial(g: Field[] | Field[][]): Field {
+  const factors = isProduct(g) ? g : [g];
+  return Poseidon.hash(factors.map((f) => Poseidon.hash(f)));
+}
+
+/**
+ * Creates a sum check transcript with the statement already absorbed
+ *
+ * @param v - The number of variables in g.
+ * @param degree - The upper bound on the degree of g in each variable.
+ * @param commitment - The commitment to g, see `commitToPolynomial`.
+ * @param claim - The claimed sum of g over {0,1}^v.
+ * @returns The transcript, ready to absorb g_1.
+ */
+export function getSumCheckTranscript(
+  v: number,
+  degree: number,
+  commitment: Field,
+  claim: Field,
+): Transcript {
+  const transcript = new Transcript(SUM_CHECK_DOMAIN_SEPARATOR);
+  transcript.absorb(Field(v), Field(degree), commitment, claim);
+  return transcript;
+}
+
+/**
+ * Produces a non-interactive proof of the sum of g over {0,1}^v
+ *
+ * @param g - The point-value representation of a multilinear g, or of each factor f_i of g = f_1 · ... · f_k
+ * @param v - The number of variables in g
+ * @returns The claimed sum and the proof for it, bound to the commitment to g.
+ */
+export function proveSumCheck(
+  g: Field[] | Field[][],
+  v: number,
+): { claim: Field; proof: SumCheckProof } {
+  const prover = new LinearTimeProver(g, v);
+  // g has degree k in each variable, where k is the number of multilinear factors
+  const degree = prover.factors.length;
+  const claim = prover.getProposedSum();
+  const commitment = commitToPolynomial(g);
+  const transcript = getSumCheckTranscript(v, degree, commitment, claim);
+
+  const roundPolynomials: Field[][] = [];
+  let r_j = undefined;
+  for (let j = 1; j <= v; j++) {
+    const g_j = prover.getRoundJPolynomial(r_j);
+    roundPolynomials.push(g_j);
+    transcript.absorb(Field(g_j.length), ...g_j);
+    r_j = transcript.squeeze();
+  }
+
+  return { claim, proof: { v, degree, commitment, roundPolynomials } };
+}
+
+/**
+ * Verifies a non-interactive sum check proof
+ * Replays the transcript to derive each r_j, checks g_j(0) + g_j(1) = g_{j-1}(r_{j-1}) in each round,
+ * and checks g(r) = g_v(r_v) with a single oracle query
+ * Given the evaluations of g, the verifier recomputes the commitment to g and the degree bound and rejects a proof
+ * produced for different ones. Given an oracle, it trusts the commitment and degree bound of the proof, so the caller
+ * has to make sure that the oracle evaluates the committed polynomial.
+ *
+ * @param proof - The proof to verify.
+ * @param claim - The claimed sum of g over {0,1}^v.
+ * @param oracle - Oracle for evaluating g, or the point-value representation of a multilinear g or of each factor
+ *                 f_i of g = f_1 · ... · f_k
+ * @returns The derived challenges and the final evaluation of g.
+ * @throws Error if the proof is rejected.
+ */
+export function verifySumCheckProof(
+  proof: SumCheckProof,
+  claim: Field,
+  oracle: PolynomialOracle | Field[] | Field[][],
+): SumCheckVerification {
+  const { v, degree, commitment, roundPolynomials } = proof;
+  if (!Number.isInteger(v) || v < 1)
+    throw Error(`Number of variables must be a positive integer, got ${v}.`);
+  if (!Number.isInteger(degree) || degree < 1)
+    throw Error(`Degree bound must be a positive integer, got ${degree}.`);
+  if (roundPolynomials.length !== v)
+    throw Error(
+      `Expected ${v} round polynomials for a ${v}-variate polynomial, got ${roundPolynomials.length}.`,
+    );
+
+  let evaluate: PolynomialOracle;
+  if (typeof oracle === "function") evaluate = oracle;
+  else {
+    const factors = isProduct(oracle) ? oracle : [oracle];
+    if (degree !== factors.length)
+      throw Error(
+        `Proof has degree bound ${degree}, expected ${factors.length} for a product of ${factors.length} multilinear polynomials.`,
+      );
+    if (!commitToPolynomial(factors).equals(commitment).toBoolean())
+      throw Error("Proof is bound to a different polynomial than g.");
+    evaluate = (x) =>
+      factors.reduce(
+        (product, f) => product.mul(getMultilinearLDE(f, x)),
+        Field(1),
+      );
+  }
+
+  const transcript = getSumCheckTranscript(v, degree, commitment, claim);
+  const r: Field[] = [];
+  // value g_{j-1}(r_{j-1}) that g_j(0) + g_j(1) is checked against, the claimed sum in round 1
+  let expected = claim;
+  for (let j = 1; j <= v; j++) {
+    const g_j = roundPolynomials[j - 1];
+    if (g_j.length === 0 || g_j.length > degree + 1)
+      throw Error(
+        `Polynomial sent in round ${j} has length ${g_j.length}. Expected length to be between 1 and ${degree + 1} for degree ${degree}.`,
+      );
+
+    const sum = getUnivariateLDE(g_j, Field(0)).add(
+      getUnivariateLDE(g_j, Field(1)),
+    );
+    if (!sum.equals(expected).toBoolean())
+      throw Error(
+        `Polynomial g_${j} is incorrect. g_j(0) + g_j(1) should equal ${expected.toString()}, but got ${sum.toString()}.`,
+      );
+
+    transcript.absorb(Field(g_j.length), ...g_j);
+    const r_j = transcript.squeeze();
+    r.push(r_j);
+    expected = getUnivariateLDE(g_j, r_j);
+  }
+
+  // oracle query, verify g(r) = g_v(r_v)
+  if (!evaluate(r).equals(expected).toBoolean())
+    throw Error(`g(r) != g_v(r_v)`);
+
+  return { r, finalEvaluation: expected };
+}
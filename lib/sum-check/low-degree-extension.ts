@@ -0,0 +1,89 @@
+import { Field } from "o1js";
+import { BarycentricInterpolator } from "../polynomials/barycentric-interpolator.ts";
+
+/**
+ * Computes the low degree extension of a function f: H^m -> F at a point r in F^m (Thaler section 3.5)
+ *
+ * H = {0, 1, ..., h-1} and the entry at index i of `values` is f(w), where w in H^m holds the base h digits of i with
+ * the most significant digit first. The extension is the unique polynomial of degree less than h in each variable
+ * agreeing with f on H^m,
+ *   f~(r) = Σ_{w in H^m} f(w) · Π_i L_{w_i}(r_i)
+ * where L_0, ..., L_{h-1} are the univariate Lagrange basis polynomials over H. For h = 2 this is `getMultilinearLDE`
+ * and for m = 1 it is `getUnivariateLDE`. Larger h trades fewer variables for a higher degree in each, for example
+ * 2^16 values take 16 variables of degree 1 with h = 2 but only 4 variables of degree 15 with h = 16.
+ *
+ * Runs in O(h^m) time using `memoizedLowDegreeBasis`.
+ *
+ * @param values - The evaluations of f over H^m, right-padded with zeroes up to h^m entries.
+ * @param h - The size of H, at least 2.
+ * @param m - The number of variables.
+ * @param r - The point in F^m at which to evaluate the extension.
+ * @returns The value f~(r).
+ * @throws Error if the values array is empty or longer than h^m, or r does not have m entries.
+ */
+export function getLowDegreeExtension(
+  values: Field[],
+  h: number,
+  m: number,
+  r: Field[],
+): Field {
+  if (!values || values.length === 0) {
+    throw new Error("The 'values' array cannot be empty.");
+  }
+  validateGrid(h, m);
+  if (values.length > h ** m)
+    throw Error(
+      `Received ${values.length} values, a function on H^${m} with |H| = ${h} has at most ${h ** m}.`,
+    );
+  if (r.length !== m)
+    throw Error(
+      `Incorrect input vector length, expected ${m} variables but received ${r.length}`,
+    );
+
+  const basis = memoizedLowDegreeBasis(r, h);
+  // entries beyond values.length are zero and contribute nothing
+  return values.reduce(
+    (accumulator, value, i) => accumulator.add(value.mul(basis[i])),
+    Field(0),
+  );
+}
+
+/**
+ * Computes the Lagrange basis polynomials χ_w for all w in H^m evaluated at a point, generalizing
+ * `memoizedLagrangeBasis` from {0,1}^m to H^m
+ *
+ * χ_w(r) = Π_i L_{w_i}(r_i), so the table is built one coordinate at a time: each entry for the first i coordinates
+ * is split into h entries by multiplying it by L_0(r_i), ..., L_{h-1}(r_i). The univariate basis values of each
+ * coordinate are computed in O(h) time with a single inversion, and the table takes O(h^m) time in total.
+ *
+ * @param r - The point in F^m.
+ * @param h - The size of H, at least 2.
+ * @returns The h^m values χ_w(r), indexed by the base h digits of w with the most significant digit first.
+ */
+export function memoizedLowDegreeBasis(r: Field[], h: number): Field[] {
+  validateGrid(h, r.length);
+  const interpolator = BarycentricInterpolator.consecutive(h);
+
+  let table = [Field(1)];
+  for (const r_i of r) {
+    const univariateBasis = interpolator.getBasis(r_i);
+    table = table.flatMap((e) => univariateBasis.map((L) => e.mul(L)));
+  }
+  return table;
+}
+
+/**
+ * Checks that H^m is a valid grid
+ *
+ * @param h - The size of H.
+ * @param m - The number of variables.
+ * @throws Error if h is not an integer of at least 2 or m is not a non-negative integer.
+ */
+function validateGrid(h: number, m: number) {
+  if (!Number.isInteger(h) || h < 2)
+    throw Error(`Size of H must be an integer of at least 2, received ${h}.`);
+  if (!Number.isInteger(m) || m < 0)
+    throw Error(
+      `Number of variables must be a non-negative integer, received ${m}.`,
+    );
+}
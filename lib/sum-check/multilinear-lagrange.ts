@@ -1,5 +1,4 @@
 import { Field } from "o1js";
-import { generateBinaryVertices, toBinary } from "../util.ts";
 
 /**
  * Computes the unique multilinear extension of a function f at a field element r
@@ -23,43 +22,36 @@ export function getMultilinearLDE(values: Field[], r: Field[]): Field {
     );
   }
 
-  const nodes: Field[][] = generateBinaryVertices(dimension).map((v) =>
-    v.map((e) => Field(e)),
-  );
-
   let accumulator = Field(0);
-  // Iterate over each interpolation node to compute the Lagrange basis and accumulate the result
-  for (let i = 0; i < nodes.length; i++) {
-    const vertex = toBinary(i, dimension).map((e) => Field(e));
-    const term =
-      i < values.length
-        ? values[i].mul(getMultilinearLagrangeBasis(vertex, r))
-        : Field(0);
-    accumulator = accumulator.add(term);
+  // Only the nodes with an entry in values contribute, the rest of the hypercube is padded with zeroes
+  for (let i = 0; i < values.length; i++) {
+    accumulator = accumulator.add(
+      values[i].mul(getMultilinearLagrangeBasisAt(i, r)),
+    );
   }
 
   return accumulator;
 }
 
 /**
- * Computes the Lagrange basis polynomial for a given node and evaluates it at a specific point.
+ * Evaluates the Lagrange basis polynomial χ_w at a point, where w in {0,1}^d is the binary encoding of `index`
+ * χ_w(x) = Π_j (w_j · x_j + (1 - w_j) · (1 - x_j)), so χ_w(w) = 1 and χ_w vanishes on every other vertex.
+ * Runs in O(d) time.
  *
- * @param vertex - The vertex of the basis polynomial to compute.
- * @param nodes - An array of vectors representing the interpolation nodes.
- * @param x - The vector at which to evaluate the basis polynomial.
- * @returns The value of the Lagrange basis polynomial evaluated at vector `x`.
+ * @param index - The index of the vertex w, with the most significant bit first.
+ * @param x - The d-dimensional vector at which to evaluate the basis polynomial.
+ * @returns The value χ_w(x).
  */
-function getMultilinearLagrangeBasis(vertex: Field[], x: Field[]): Field {
-  // Initialize the accumulator for the product over all terms except when j = index.
+export function getMultilinearLagrangeBasisAt(
+  index: number,
+  x: Field[],
+): Field {
   let accumulator = Field(1);
-
-  for (let j = 0; j < vertex.length; j++) {
-    // compare jth entry of node[i] and x
-    const univariateBasis = vertex[j]
-      .mul(x[j])
-      .add(Field(1).sub(vertex[j]).mul(Field(1).sub(x[j])));
-    accumulator = accumulator.mul(univariateBasis);
+  // read the bits of index from the least significant, which pairs with the last coordinate of x
+  // division rather than bit shifts so indices beyond 2^31 are supported
+  for (let j = x.length - 1, i = index; j >= 0; j--, i = Math.floor(i / 2)) {
+    // x_j if w_j = 1, otherwise 1 - x_j
+    accumulator = accumulator.mul(i % 2 === 1 ? x[j] : Field(1).sub(x[j]));
   }
-
   return accumulator;
 }
@@ -0,0 +1,259 @@
+import { Field } from "o1js";
+import { getUnivariateLDE } from "./univariate-lagrange.ts";
+import {
+  ChallengeSource,
+  getSoundnessError,
+  RandomChallengeSource,
+} from "./challenge-source.ts";
+import { generateBinaryVertices } from "../util.ts";
+
+/**
+ * Oracle access to a v-variate polynomial g: F^v -> F
+ * Unlike the point value representation used by `Prover`, g may have any degree in each of its variables
+ */
+export type PolynomialOracle = (x: Field[]) => Field;
+
+/**
+ * Sum check prover for polynomials of arbitrary individual degree
+ *
+ * holds oracle access to g along with upper bounds deg_j(g) on its degree in each variable,
+ * and proves the sum of all boolean evaluations of g
+ */
+export class OracleProver {
+  // Number of variables in g
+  v: number;
+
+  // oracle for evaluating g at any point in F^v
+  g: PolynomialOracle;
+
+  // degrees[j-1] is an upper bound on the degree of g in its jth variable
+  degrees: number[];
+
+  // vector of fixed values to be constructed round by round
+  // empty at round 1, v-1 dimensional at round v
+  r: Field[] = [];
+
+  // number of rounds completed so far
+  private round = 0;
+
+  /**
+   * Creates an instance of the OracleProver.
+   *
+   * @param g - Oracle for evaluating the polynomial g
+   * @param degrees - Upper bounds on the degree of g in each variable, g is taken to be degrees.length-variate
+   */
+  constructor(g: PolynomialOracle, degrees: number[]) {
+    validateDegrees(degrees);
+    this.v = degrees.length;
+    this.g = g;
+    this.degrees = degrees;
+  }
+
+  /**
+   * Computes the univariate polynomial g_j for the current round j
+   * g_j(X_j) = sum over b in {0,1}^(v-j) of g(r_1, ..., r_{j-1}, X_j, b)
+   *
+   * @param r_prev - The j-1th value of r provided by the Verifier (should be undefined in the first round)
+   * @returns The point-value representation of g_j at the points 0, 1, ..., deg_j(g).
+   */
+  getRoundJPolynomial(r_prev?: Field): Field[] {
+    // current round number (number of fixed variables is j-1 at each round)
+    const j = this.round + 1;
+
+    if (j > this.v)
+      throw Error(
+        `Cannot fix more than ${this.v} values in the ${this.v}-dimensional vector r`,
+      );
+    // r should be empty during round 1
+    if (j === 1 && r_prev !== undefined)
+      throw Error(
+        `Prover received unexpected r value ${r_prev} during round 1 of the sum check protocol.`,
+      );
+    if (j !== 1 && r_prev === undefined)
+      throw Error(
+        `Round ${j} requires the ${j - 1} entries in r to be fixed. Expected another entry in r.`,
+      );
+
+    // fix the value r_prev and append it to the fixed r vector
+    if (r_prev !== undefined) this.r.push(r_prev);
+    this.round = j;
+
+    // all 2^(v-j) binary vectors for the variables after x_j
+    const binaryVectors = generateBinaryVertices(this.v - j).map((vertex) =>
+      vertex.map((e) => Field(e)),
+    );
+
+    // a polynomial of degree deg_j(g) is determined by its evaluations at deg_j(g) + 1 points
+    const evaluations: Field[] = [];
+    for (let t = 0; t <= this.degrees[j - 1]; t++) {
+      let sum = Field(0);
+      binaryVectors.forEach((vector) => {
+        sum = sum.add(this.g([...this.r, Field(t), ...vector]));
+      });
+      evaluations.push(sum);
+    }
+
+    return evaluations;
+  }
+
+  /**
+   * Computes the proposed sum of g(x) for all x in {0,1}^v
+   *
+   * @returns The sum of g evaluated over all binary vectors of length v
+   */
+  getProposedSum(): Field {
+    let accumulator = Field(0);
+    generateBinaryVertices(this.v).forEach((vertex) => {
+      accumulator = accumulator.add(this.g(vertex.map((e) => Field(e))));
+    });
+    return accumulator;
+  }
+}
+
+/**
+ * Sum check verifier for polynomials of arbitrary individual degree
+ *
+ * verifies correctness of the proposed sum of all evaluations of g in a
+ * v round protocol ending in a single oracle query of g(r)
+ */
+export class OracleVerifier {
+  // number of variables in g
+  private v: number;
+
+  // degrees[j-1] is an upper bound on the degree of g in its jth variable
+  private degrees: number[];
+
+  // sum proposed by prover
+  private proposedSum: Field;
+
+  // source of the random challenges r_j
+  private challengeSource: ChallengeSource;
+
+  /**
+   * Univariate polynomials g_j sent by the Prover in point value form
+   * After round v, this will contain v polynomials.
+   */
+  private polynomials: Field[][] = [];
+
+  /**
+   * Fixed entries of r to evaluate g at in the final round
+   * After round v, this will be a v-dimensional vector
+   */
+  private r: Field[] = [];
+
+  /**
+   * Creates an instance of the OracleVerifier.
+   *
+   * @param proposedSum - The sum proposed by the Prover.
+   * @param degrees - Upper bounds on the degree of g in each variable, g is taken to be degrees.length-variate
+   * @param challengeSource - The source of the random challenges, uniform over the whole field by default
+   */
+  constructor(
+    proposedSum: Field,
+    degrees: number[],
+    challengeSource: ChallengeSource = new RandomChallengeSource(),
+  ) {
+    validateDegrees(degrees);
+    this.v = degrees.length;
+    this.degrees = degrees;
+    this.proposedSum = proposedSum;
+    this.challengeSource = challengeSource;
+  }
+
+  /**
+   * Verifies the univariate polynomial g_j for the current round j
+   * Checks that
+   *  deg(g_j) <= deg_j(g)
+   *  g_j(0) + g_j(1) = g_{j-1}(r_{j-1})
+   * if g_j passes the checks, generates and stores a random field element r_j for the prover to fix in the j+1th round
+   *
+   * @param g_j - The point-value representation of the univariate polynomial g_j at the points 0, 1, ..., deg(g_j)
+   * @returns A random field element r_j for the next round.
+   */
+  verifyRoundJPolynomial(g_j: Field[]): Field {
+    const j = this.r.length + 1;
+    if (j > this.v)
+      throw Error(
+        `Too many rounds (j=${j}). The polynomial g is ${this.v}-variate, so there should only be ${this.v} rounds.`,
+      );
+    // a polynomial of degree deg_j(g) is specified by at most deg_j(g) + 1 evaluations
+    if (g_j.length === 0 || g_j.length > this.degrees[j - 1] + 1)
+      throw Error(
+        `Polynomial sent in round ${j} has length ${g_j.length}. Expected length to be between 1 and ${this.degrees[j - 1] + 1} since deg_${j}(g) <= ${this.degrees[j - 1]}.`,
+      );
+
+    // Compute g_j(0) + g_j(1)
+    const sum = getUnivariateLDE(g_j, Field(0)).add(
+      getUnivariateLDE(g_j, Field(1)),
+    );
+    // round 1 - check against the proposed sum, round j>1 - check against g_{j-1}(r_{j-1})
+    const expected =
+      j === 1
+        ? this.proposedSum
+        : getUnivariateLDE(this.polynomials[j - 2], this.r[j - 2]);
+    if (!sum.equals(expected).toBoolean())
+      throw Error(
+        `Polynomial g_${j} is incorrect. g_j(0) + g_j(1) should equal ${expected.toString()}, but got ${sum.toString()}.`,
+      );
+
+    // generate a random field element for the next round, store the polynomial and the field element
+    const r_j = this.getRandomFieldElement();
+    this.r.push(r_j);
+    this.polynomials.push(g_j);
+    return r_j;
+  }
+
+  /**
+   * Verifies the evaluation of g at the point r: g(r) = g_v(r_v) with a single oracle query
+   * To be run after verifier has already verified g_v is the correct polynomial and generated the vth entry of r
+   *
+   * @param g - Oracle for evaluating the polynomial g
+   */
+  verifyOracleQueryOfG(g: PolynomialOracle) {
+    // check the full vector r has been generated
+    if (this.r.length != this.v || this.polynomials.length != this.v)
+      throw Error(
+        `${this.v} rounds are required to fix all ${this.v} variables of r.`,
+      );
+
+    // query the oracle for g at the v-dimensional vector r
+    const gOfR = g(this.r);
+    // evaluate the univariate polynomial g_v at the vth entry of r
+    const g_vOfR_v = getUnivariateLDE(
+      this.polynomials[this.v - 1],
+      this.r[this.v - 1],
+    );
+    // verify g(r) = g_v(r_v)
+    if (!gOfR.equals(g_vOfR_v).toBoolean()) throw Error(`g(r) != g_v(r_v)`);
+  }
+
+  /**
+   * Computes the probability that the verifier accepts a false claim, Σ_j deg_j(g) / |S|
+   *
+   * @returns The soundness error for the configured challenge space.
+   */
+  getSoundnessError(): number {
+    return getSoundnessError(this.degrees, this.challengeSource.size);
+  }
+
+  getRandomFieldElement(): Field {
+    return this.challengeSource.next();
+  }
+}
+
+/**
+ * Validates the per-variable degree bounds of g
+ *
+ * @param degrees - Upper bounds on the degree of g in each variable
+ * @throws Error if g has no variables or a degree bound is not a non-negative integer
+ */
+function validateDegrees(degrees: number[]) {
+  if (degrees.length === 0)
+    throw Error("The polynomial g must have at least one variable.");
+  degrees.forEach((d, i) => {
+    if (!Number.isInteger(d) || d < 0)
+      throw Error(
+        `Degree bound for variable ${i + 1} must be a non-negative integer, received ${d}.`,
+      );
+  });
+}
@@ -0,0 +1,134 @@
+import { Field, Provable } from "o1js";
+import { memoizedLagrangeBasis } from "../message-extensions/fast-multilinear-lagrange.ts";
+import { getRequiredBits } from "../util.ts";
+import { getProvableUnivariateLDE } from "./univariate-lagrange.ts";
+
+/**
+ * Circuit-compatible evaluation of multilinear and univariate extensions
+ *
+ * The out-of-circuit evaluators compare field elements with `.toBoolean()`, for example to return f(r) directly when
+ * r is a node, and a circuit cannot branch on the value of a variable. The functions here only branch on the sizes of
+ * their inputs, which are fixed when a circuit is compiled, and compute every value with field arithmetic, so they
+ * add the same constraints whatever the values of `values` and `r` are.
+ */
+
+/**
+ * Evaluates the multilinear extension of f at r by folding the table of evaluations one variable at a time
+ * Same result as `getMultilinearLDE`. Fixing x_1 = r_1 maps the table T to T_0 + r_1 · (T_1 - T_0), where T_0 and
+ * T_1 are its halves with x_1 = 0 and x_1 = 1, which costs one multiplication per entry of the smaller table,
+ * 2^d - 1 in total.
+ *
+ * @param values - The evaluations of f at the vertices of {0,1}^d, padded with zeroes up to 2^d.
+ * @param r - The d-dimensional point at which to evaluate, may hold circuit variables.
+ * @returns The value of the multilinear extension of f at r.
+ * @throws Error if `values` is empty or r has a dimension different from d = ceil(log_2(n)).
+ */
+export function getProvableMultilinearLDE(values: Field[], r: Field[]): Field {
+  if (values.length === 0) {
+    throw new Error("The 'values' array cannot be empty.");
+  }
+
+  const dimension = Math.ceil(Math.log2(values.length));
+  if (r.length !== dimension) {
+    throw new Error(
+      `Incorrect input vector length, expected ${dimension} variables but received ${r.length}`,
+    );
+  }
+
+  let table = [
+    ...values,
+    ...Array.from({ length: 2 ** dimension - values.length }, () => Field(0)),
+  ];
+  for (const r_j of r) {
+    const half = table.length / 2;
+    table = table
+      .slice(0, half)
+      .map((t_0, i) => t_0.add(r_j.mul(table[i + half].sub(t_0))));
+  }
+
+  return table[0];
+}
+
+/**
+ * Evaluates the multilinear extension of f at r as the dot product of f with the Lagrange basis at r
+ * Same result as `getMemoizedMultilinearLagrange` on field elements, at the cost of building the whole basis with
+ * `memoizedLagrangeBasis`. Prefer `getProvableMultilinearLDE` for a single evaluation, the basis is worth building
+ * when several functions are evaluated at the same r.
+ *
+ * @param values - The evaluations of f at the vertices of {0,1}^d, padded with zeroes up to 2^d.
+ * @param r - The d-dimensional point at which to evaluate, may hold circuit variables.
+ * @returns The value of the multilinear extension of f at r.
+ * @throws Error if `values` is empty or r has a dimension different from d = ceil(log_2(n)).
+ */
+export function getProvableMemoizedMultilinearLagrange(
+  values: Field[],
+  r: Field[],
+): Field {
+  if (values.length === 0) {
+    throw Error("Message cannot be empty.");
+  }
+
+  const d = getRequiredBits(values.length);
+  if (r.length !== d) {
+    throw Error(
+      `Input vector 'r' must have length ${d}, corresponding to the hypercube dimension.`,
+    );
+  }
+
+  // the basis of the 0-dimensional hypercube is the constant 1
+  const basis = d === 0 ? [Field(1)] : memoizedLagrangeBasis(r);
+  return values.reduce(
+    (accumulator, value, i) => accumulator.add(value.mul(basis[i])),
+    Field(0),
+  );
+}
+
+/**
+ * Number of constraint system rows each provable evaluator needs for an input of n values
+ */
+export interface ExtensionConstraintCounts {
+  // number of values
+  n: number;
+  // getProvableMultilinearLDE with d = ceil(log_2(n)) variables
+  multilinear: number;
+  // getProvableMemoizedMultilinearLagrange with d = ceil(log_2(n)) variables
+  memoized: number;
+  // getProvableUnivariateLDE
+  univariate: number;
+}
+
+/**
+ * Counts the constraints of the provable evaluators for witnessed values and a witnessed point
+ *
+ * @param n - The number of values.
+ * @returns The number of rows each evaluator adds to the constraint system.
+ */
+export async function countExtensionConstraints(
+  n: number,
+): Promise<ExtensionConstraintCounts> {
+  const d = getRequiredBits(n);
+  const count = async (
+    dimension: number,
+    evaluate: (values: Field[], r: Field[]) => Field,
+  ) => {
+    const { rows } = await Provable.constraintSystem(() => {
+      const values = Provable.witness(Provable.Array(Field, n), () =>
+        Array.from({ length: n }, () => Field(0)),
+      );
+      const r = Provable.witness(Provable.Array(Field, dimension), () =>
+        Array.from({ length: dimension }, () => Field(0)),
+      );
+      evaluate(values, r);
+    });
+    return rows;
+  };
+
+  return {
+    n,
+    multilinear: await count(d, getProvableMultilinearLDE),
+    memoized: await count(d, getProvableMemoizedMultilinearLagrange),
+    univariate: await count(1, (values, r) =>
+      getProvableUnivariateLDE(values, r[0]),
+    ),
+  };
+}
@@ -0,0 +1,118 @@
+import {
+  Field,
+  method,
+  Provable,
+  Signature,
+  SmartContract,
+  state,
+  State,
+  Struct,
+} from "o1js";
+import { TranscriptChallengeSource } from "./challenge-source.ts";
+import { commitToPolynomial, getSumCheckTranscript } from "./fiat-shamir.ts";
+import { Verifier } from "./sum-check-iterative-verifier.ts";
+
+/**
+ * Sum check verification in a Mina smart contract
+ *
+ * The contract stores a Poseidon commitment to the evaluations of a multilinear g over {0,1}^v and records the sum
+ * of g once a Fiat-Shamir sum check proof for it has been verified on-chain. The proof is checked by the iterative
+ * `Verifier` run in-circuit, with its challenges r_j squeezed from the Poseidon transcript of `proveSumCheck`. The
+ * transcript absorbs the stored commitment before any round polynomial, so a proof is bound to the committed g and
+ * one computed before g was committed does not verify.
+ *
+ * The final oracle query g(r) = g_v(r_v) is answered by opening the commitment: the caller passes the evaluations of
+ * g, the contract checks them against the stored hash and evaluates the multilinear extension at r in-circuit. This
+ * stands in for a polynomial commitment scheme, which would open g(r) without revealing all 2^v evaluations.
+ */
+
+/**
+ * Creates a smart contract verifying sum check proofs for a committed multilinear polynomial in v variables
+ *
+ * The contract has two methods:
+ *  `commit(commitment, signature)` stores the commitment to g, it can only be called once and the commitment must be
+ *  signed with the private key of the contract account, so only its deployer can choose g. The commitment cannot be
+ *  zero, which marks the state before g is committed
+ *  `verifySum(claim, roundPolynomials, evaluations)` verifies a proof that g sums to `claim` and records the claim
+ *
+ * @param v - The number of variables in g.
+ * @returns The contract class and the provable types of its arguments.
+ * @throws Error if v is not a positive integer.
+ */
+export function createSumCheckContract(v: number) {
+  if (!Number.isInteger(v) || v < 1)
+    throw Error(`Number of variables must be a positive integer, got ${v}.`);
+
+  // a multilinear g has round polynomials of degree 1, sent as their values at 0 and 1
+  class RoundPolynomials extends Struct({
+    values: Provable.Array(Provable.Array(Field, 2), v),
+  }) {}
+
+  // evaluations of g over {0,1}^v
+  class Evaluations extends Struct({
+    values: Provable.Array(Field, 2 ** v),
+  }) {}
+
+  class SumCheckContract extends SmartContract {
+    // Poseidon hash of the evaluations of g, zero until committed
+    @state(Field) commitment = State<Field>();
+
+    // the sum of g over {0,1}^v, zero until a proof is verified
+    @state(Field) verifiedSum = State<Field>();
+
+    /**
+     * Stores the commitment to g
+     *
+     * @param commitment - The commitment returned by `commitToPolynomial`.
+     * @param signature - The signature of the commitment with the private key of the contract account.
+     */
+    @method async commit(commitment: Field, signature: Signature) {
+      signature
+        .verify(this.address, [commitment])
+        .assertTrue("Commitment is not signed by the deployer.");
+      // zero is the initial state, committing to it would leave commit open to be called again
+      commitment.assertNotEquals(Field(0), "Commitment to g cannot be zero.");
+      this.commitment
+        .getAndRequireEquals()
+        .assertEquals(Field(0), "Polynomial g is already committed.");
+      this.commitment.set(commitment);
+    }
+
+    /**
+     * Verifies a non-interactive sum check proof for the committed g and records the claimed sum
+     *
+     * @param claim - The claimed sum of g over {0,1}^v.
+     * @param roundPolynomials - The round polynomials g_1, ..., g_v of the proof.
+     * @param evaluations - The evaluations of g, opening the commitment for the oracle query.
+     */
+    @method async verifySum(
+      claim: Field,
+      roundPolynomials: RoundPolynomials,
+      evaluations: Evaluations,
+    ) {
+      const commitment = this.commitment.getAndRequireEquals();
+      commitToPolynomial(evaluations.values).assertEquals(
+        commitment,
+        "Evaluations do not match the commitment to g.",
+      );
+
+      // replay the transcript of proveSumCheck, absorbing each g_j before the verifier squeezes r_j
+      const transcript = getSumCheckTranscript(v, 1, commitment, claim);
+      const verifier = new Verifier(
+        claim,
+        v,
+        undefined,
+        new TranscriptChallengeSource(transcript),
+      );
+      for (const g_j of roundPolynomials.values) {
+        transcript.absorb(Field(g_j.length), ...g_j);
+        verifier.verifyRoundJPolynomial(g_j);
+      }
+      verifier.verifyOracleQueryOfG(evaluations.values);
+
+      this.verifiedSum.set(claim);
+    }
+  }
+
+  return { SumCheckContract, RoundPolynomials, Evaluations };
+}
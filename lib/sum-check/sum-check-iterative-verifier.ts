@@ -0,0 +1,196 @@
+import { Field } from "o1js";
+import { getProvableMultilinearLDE } from "./provable-lagrange.ts";
+import { getProvableUnivariateLDE } from "./univariate-lagrange.ts";
+import {
+  ChallengeSource,
+  getSoundnessError,
+  RandomChallengeSource,
+} from "./challenge-source.ts";
+import { MultivariatePolynomial } from "../polynomials/multivariate-polynomial.ts";
+
+/**
+ * Sum check verifier
+ *
+ * verifies correctness of the proposed sum of all evaluations of g in a
+ * v round protocol ending in a single evaluation of g(r)
+ *
+ * The checks only use field arithmetic, so the verifier can also run inside an o1js circuit, where each check becomes
+ * a constraint. Paired with a `TranscriptChallengeSource` it verifies non-interactive proofs, see the sum check contract.
+ */
+export class Verifier {
+  // number of variables in g
+  private v: number;
+
+  // degrees[j-1] is an upper bound on the degree of g in its jth variable, g is multilinear if not supplied
+  private degrees?: number[];
+
+  // sum proposed by prover
+  private proposedSum: Field;
+
+  // source of the random challenges r_j
+  private challengeSource: ChallengeSource;
+
+  /**
+   * Univariate polynomials g_j sent by the Prover in point value form
+   * After round v, this will contain v polynomials.
+   */
+  private polynomials: Field[][] = [];
+
+  /**
+   * Fixed entries of r to evaluate g at in the final round
+   * After round v, this will be a v-dimensional vector
+   */
+  private r: Field[] = [];
+
+  /**
+   * Creates an instance of the Verifier.
+   *
+   * @param proposedSum - The sum proposed by the Prover.
+   * @param v - The number of variables in the polynomial g
+   * @param degrees - Upper bounds on the degree of g in each variable, for a g that is not multilinear
+   * @param challengeSource - The source of the random challenges, uniform over the whole field by default
+   */
+  constructor(
+    proposedSum: Field,
+    v: number,
+    degrees?: number[],
+    challengeSource: ChallengeSource = new RandomChallengeSource(),
+  ) {
+    if (degrees !== undefined && degrees.length !== v)
+      throw Error(
+        `Expected ${v} degree bounds for a ${v}-variate polynomial, received ${degrees.length}.`,
+      );
+    this.v = v;
+    this.degrees = degrees;
+    this.proposedSum = proposedSum;
+    this.challengeSource = challengeSource;
+  }
+
+  /**
+   * Verifies the univariate polynomial g_j for the current round j
+   * Checks that
+   *  deg_j(g) = deg(g_j)
+   *  g_j(0) + g_j(1) = g_{j-1}(r_{j-1})
+   * if g_j passes the checks, generates and stores a random field element r_j for the prover to fix in the j+1th round
+   *
+   * @param g_j - The point-value representation of the univariate polynomialg_j
+   * @returns A random field element r_j for the next round.
+   */
+  verifyRoundJPolynomial(g_j: Field[]): Field {
+    const j = this.r.length + 1;
+    if (j > this.v)
+      throw Error(
+        `Too many rounds (j=${j}). The polynomial g is ${this.v}-variate, so there should only be ${this.v} rounds.`,
+      );
+    if (this.degrees !== undefined) {
+      // a polynomial of degree deg_j(g) is specified by deg_j(g) + 1 evaluations, at least 2 are always accepted
+      const maxLength = Math.max(1, this.degrees[j - 1]) + 1;
+      if (g_j.length > maxLength)
+        throw Error(
+          `Polynomial sent in round ${j} has length ${g_j.length}. Expected length to be <= ${maxLength} since deg_${j}(g) <= ${this.degrees[j - 1]}.`,
+        );
+    } else if (g_j.length > 2)
+      throw Error(
+        `Polynomial sent in round ${j} has length ${g_j.length}. Expected length to be <= 2 for multilinear polynomials.`,
+      );
+
+    // Compute g_j(0) + g_j(1)
+    const sum = getProvableUnivariateLDE(g_j, Field(0)).add(
+      getProvableUnivariateLDE(g_j, Field(1)),
+    );
+    // round 1 - check against the proposed sum
+    if (j === 1) {
+      assertEqualFields(
+        sum,
+        this.proposedSum,
+        "Polynomial g_1 is incorrect.",
+        () =>
+          `Polynomial g_1 is incorrect, g_1(0) + g_1(1) should equal ${this.proposedSum.toString()} but was actually ${sum.toString()}`,
+      );
+    }
+    // round j>1, check sum against round g_{j-1}(r_{j-1})
+    else if (j > 1) {
+      const prevPolynomialAtPrevR = getProvableUnivariateLDE(
+        this.polynomials[j - 2],
+        this.r[j - 2],
+      );
+      assertEqualFields(
+        sum,
+        prevPolynomialAtPrevR,
+        `Polynomial g_${j} is incorrect.`,
+        () =>
+          `Polynomial g_${j} is incorrect. g_j(0) + g_j(1) should equal ${prevPolynomialAtPrevR.toString()}, but got ${sum.toString()}.`,
+      );
+    }
+
+    // generate a random field element for the next round, store the polynomial and the field element
+    const r_j = this.getRandomFieldElement();
+    this.r.push(r_j);
+    this.polynomials.push(g_j);
+    return r_j;
+  }
+
+  /**
+   * Verifies the evaluation of g at the point r: g(r) = g_v(r_v)
+   * To be run after verifier has already verified g_v is the correct polynomial and generated the vth entry of r
+   *
+   * @param g - The point-value representation of the polynomial g, or the polynomial g
+   */
+  verifyOracleQueryOfG(g: Field[] | MultivariatePolynomial) {
+    // check the full vector r has been generated
+    if (this.r.length != this.v || this.polynomials.length != this.v)
+      throw Error(
+        `${this.v} rounds are required to fix all ${this.v} variables of r.`,
+      );
+
+    // evaluate the full polynomial g at the v-dimensional vector r
+    const gOfR =
+      g instanceof MultivariatePolynomial
+        ? g.evaluate(this.r)
+        : getProvableMultilinearLDE(g, this.r);
+    // evaluate the univariate polynomial g_v at the vth entry of r
+    const g_vOfR_v = getProvableUnivariateLDE(
+      this.polynomials[this.polynomials.length - 1],
+      this.r[this.r.length - 1],
+    );
+    // verify g(r) = g_v(r_v)
+    assertEqualFields(gOfR, g_vOfR_v, "g(r) != g_v(r_v)");
+  }
+
+  /**
+   * Computes the probability that the verifier accepts a false claim, Σ_j deg_j(g) / |S|
+   *
+   * @returns The soundness error for the configured challenge space.
+   */
+  getSoundnessError(): number {
+    // round polynomials of degree up to max(1, deg_j(g)) are accepted, see verifyRoundJPolynomial
+    return getSoundnessError(
+      (this.degrees ?? Array(this.v).fill(1)).map((d) => Math.max(1, d)),
+      this.challengeSource.size,
+    );
+  }
+
+  getRandomFieldElement(): Field {
+    return this.challengeSource.next();
+  }
+}
+
+/**
+ * Asserts x = y, as a constraint if either is a circuit variable
+ *
+ * @param x - The computed value.
+ * @param y - The expected value.
+ * @param message - The error message.
+ * @param describe - Builds a more detailed error message from the values, used when both are constants.
+ * @throws Error if x != y.
+ */
+function assertEqualFields(
+  x: Field,
+  y: Field,
+  message: string,
+  describe: () => string = () => message,
+) {
+  if (x.isConstant() && y.isConstant()) {
+    if (!x.equals(y).toBoolean()) throw Error(describe());
+  } else x.assertEquals(y, message);
+}
@@ -0,0 +1,126 @@
+import { Field, Provable, Struct, ZkProgram } from "o1js";
+import { getSumCheckTranscript, SumCheckVerification } from "./fiat-shamir.ts";
+import { getProvableUnivariateLDE } from "./univariate-lagrange.ts";
+
+/**
+ * Fiat-Shamir sum check verifier as an o1js ZkProgram
+ *
+ * The program replays the Poseidon transcript of `verifySumCheckProof` in-circuit, so a proof produced by
+ * `proveSumCheck` is accepted exactly when the out-of-circuit verifier accepts its round checks. The circuit shape
+ * is fixed at compile time, so each program verifies proofs for a single number of variables v and degree bound d,
+ * and every round polynomial must be sent as its values at the d + 1 points 0, 1, ..., d.
+ *
+ * The public input is the statement: the claimed sum and the commitment to g that the transcript absorbs before
+ * any round polynomial, so the challenges are fixed only once g is. The oracle query g(r) = g_v(r_v) is left to the
+ * caller: the program outputs r and g_v(r_v), and an outer circuit or contract that verifies the proof recursively
+ * has to check the statement's commitment against the g it queries at r.
+ */
+
+/**
+ * Public input of the sum check program
+ */
+export class SumCheckStatement extends Struct({
+  // claimed sum of g over {0,1}^v
+  claim: Field,
+  // commitment to g, see `commitToPolynomial`
+  commitment: Field,
+}) {}
+
+/**
+ * Checks the round polynomials of a sum check proof with circuit constraints
+ * Works both inside a circuit and on constant field elements.
+ *
+ * @param claim - The claimed sum of g over {0,1}^v.
+ * @param commitment - The commitment to g.
+ * @param roundPolynomials - The values of g_1, ..., g_v at the points 0, 1, ..., degree.
+ * @param degree - The upper bound on the degree of g in each variable.
+ * @returns The derived challenges and the value g_v(r_v) that g(r) has to equal.
+ * @throws Error if a round check fails, which makes the constraint system unsatisfiable.
+ */
+export function verifySumCheckRounds(
+  claim: Field,
+  commitment: Field,
+  roundPolynomials: Field[][],
+  degree: number,
+): SumCheckVerification {
+  const v = roundPolynomials.length;
+  const transcript = getSumCheckTranscript(v, degree, commitment, claim);
+  const r: Field[] = [];
+  // value g_{j-1}(r_{j-1}) that g_j(0) + g_j(1) is checked against, the claimed sum in round 1
+  let expected = claim;
+  for (let j = 1; j <= v; j++) {
+    const g_j = roundPolynomials[j - 1];
+    if (g_j.length !== degree + 1)
+      throw Error(
+        `Polynomial sent in round ${j} has length ${g_j.length}. Expected length ${degree + 1} for degree ${degree}.`,
+      );
+
+    // g_j is given by its values at 0, 1, ..., so g_j(0) + g_j(1) needs no interpolation
+    g_j[0]
+      .add(g_j[1])
+      .assertEquals(expected, `Polynomial g_${j} is incorrect.`);
+
+    transcript.absorb(Field(g_j.length), ...g_j);
+    const r_j = transcript.squeeze();
+    r.push(r_j);
+    expected = getProvableUnivariateLDE(g_j, r_j);
+  }
+
+  return { r, finalEvaluation: expected };
+}
+
+/**
+ * Creates a ZkProgram verifying Fiat-Shamir sum check proofs for v variables and degree bound d
+ *
+ * The public input is the statement, the claimed sum together with the commitment to g, the private input the
+ * round polynomials and the public output the challenges r together with g_v(r_v).
+ *
+ * @param v - The number of variables in g.
+ * @param degree - The upper bound on the degree of g in each variable, 1 for multilinear g.
+ * @returns The program, its proof class for recursive verification and the provable types of its inputs and output.
+ * @throws Error if v or the degree is not a positive integer.
+ */
+export function createSumCheckProgram(v: number, degree: number) {
+  if (!Number.isInteger(v) || v < 1)
+    throw Error(`Number of variables must be a positive integer, got ${v}.`);
+  if (!Number.isInteger(degree) || degree < 1)
+    throw Error(`Degree bound must be a positive integer, got ${degree}.`);
+
+  const RoundPolynomials = Provable.Array(Provable.Array(Field, degree + 1), v);
+
+  class SumCheckOutput extends Struct({
+    r: Provable.Array(Field, v),
+    finalEvaluation: Field,
+  }) {}
+
+  const program = ZkProgram({
+    name: `sum-check-v${v}-d${degree}`,
+    publicInput: SumCheckStatement,
+    publicOutput: SumCheckOutput,
+
+    methods: {
+      verify: {
+        privateInputs: [RoundPolynomials],
+
+        async method(
+          statement: SumCheckStatement,
+          roundPolynomials: Field[][],
+        ) {
+          const { claim, commitment } = statement;
+          return new SumCheckOutput(
+            verifySumCheckRounds(claim, commitment, roundPolynomials, degree),
+          );
+        },
+      },
+    },
+  });
+
+  const SumCheckProgramProof = ZkProgram.Proof(program);
+
+  return {
+    program,
+    SumCheckProgramProof,
+    SumCheckOutput,
+    RoundPolynomials,
+  };
+}
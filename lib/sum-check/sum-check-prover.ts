@@ -1,19 +1,20 @@
 import { Field } from "o1js";
 import { getMultilinearLDE } from "./multilinear-lagrange.ts";
-
+import { MultivariatePolynomial } from "../polynomials/multivariate-polynomial.ts";
 
 /**
  * Sum check prover
- * holds polynomial g in point value form and proves the sum of all boolean evaluations of g
+ * holds polynomial g, either in point value form or as a sparse multivariate polynomial,
+ * and proves the sum of all boolean evaluations of g
  * */
 export class Prover {
   // Number of variables in g
   v: number;
 
-  // point value representation of the multivariate function g: {0,1}^v -> F
+  // either the point value representation of the multivariate function g: {0,1}^v -> F
   // an array of field elements corresponding to g evaluated at all points in {0,1\}^v
-  // todo: Update code to represent g:F^v -> F
-  g: Field[];
+  // or a polynomial g: F^v -> F of any degree in each variable
+  g: Field[] | MultivariatePolynomial;
 
   // vector of fixed values to be constructed round by round
   // empty at round 1, v-1 dimensional at round v
@@ -22,12 +23,18 @@ export class Prover {
   /**
    * Creates an instance of the Prover.
    *
-   * @param g - The point-value representation of the function g
+   * @param g - The point-value representation of the function g, or the polynomial g
    * @param v - The number of variables in the function g
    */
-  constructor(g: Field[], v: number) {
+  constructor(g: Field[] | MultivariatePolynomial, v: number) {
+    if (g instanceof MultivariatePolynomial) {
+      if (g.v !== v)
+        throw new Error(
+          `The polynomial g has ${g.v} variables, it should have ${v} variables.`,
+        );
+    }
     // validate that the number of evaluations supplied represents a v-variate function
-    if (g.length > 2 ** v)
+    else if (g.length > 2 ** v)
       throw new Error(
         `The function g specified by the evaluations [${g
           .map((e) => e.toString())
@@ -45,11 +52,12 @@ export class Prover {
    * Computes the univariate polynomial g_j for the current round j
    *
    * @param r_prev - The j-1th value of r provided by the Verifier (should be undefined in the first round)
-   * @returns The point-value representation of the univariate polynomial g_j at points 0 and 1.
+   * @returns The point-value representation of the univariate polynomial g_j at points 0 and 1,
+   * or at points 0, 1, ..., deg_j(g) if g is a polynomial of higher degree in x_j.
    */
   getRoundJPolynomial(r_prev?: Field) {
     // fix the value r_prev and append it to the fixed r vector
-    if (r_prev!==undefined) this.r.push(r_prev);
+    if (r_prev !== undefined) this.r.push(r_prev);
 
     // current round number (number of fixed variables is j-1 at each round)
     const j = this.r.length + 1;
@@ -66,12 +74,14 @@ export class Prover {
       );
     }
 
-    if (j!==1 && r_prev === undefined)
+    if (j !== 1 && r_prev === undefined)
       throw Error(
-        `Round ${j} requires the ${j-1} entries in r to be fixed. Expected another entry in r.`,
+        `Round ${j} requires the ${j - 1} entries in r to be fixed. Expected another entry in r.`,
       );
 
-
+    const g = this.g;
+    if (g instanceof MultivariatePolynomial)
+      return this.getRoundJPolynomialOfPolynomial(g, j);
 
     // Compute 2^(v - j) binary vectors of length v - j
     const binaryVectors = this.getBinaryVectors(this.v - j);
@@ -79,28 +89,20 @@ export class Prover {
     // Initialize sums for x_j = 0 and x_j = 1
     let sum0 = Field(0),
       sum1 = Field(0);
-    if(binaryVectors.length) {
+    if (binaryVectors.length) {
       // sum over all vectors in {0,1}^(v-j)
       binaryVectors.forEach((vector: Field[]) => {
         // x_j = 0
-        sum0 = sum0.add(
-          getMultilinearLDE(this.g, [...this.r, Field(0), ...vector]),
-        );
+        sum0 = sum0.add(getMultilinearLDE(g, [...this.r, Field(0), ...vector]));
         // x_j = 1
-        sum1 = sum1.add(
-          getMultilinearLDE(this.g, [...this.r, Field(1), ...vector]),
-        );
+        sum1 = sum1.add(getMultilinearLDE(g, [...this.r, Field(1), ...vector]));
       });
     } else {
       // in round v there will be no binary vectors to sum over
       // x_j = 0
-      sum0 = sum0.add(
-        getMultilinearLDE(this.g, [...this.r, Field(0)]),
-      );
+      sum0 = sum0.add(getMultilinearLDE(g, [...this.r, Field(0)]));
       // x_j = 1
-      sum1 = sum1.add(
-        getMultilinearLDE(this.g, [...this.r, Field(1)]),
-      );
+      sum1 = sum1.add(getMultilinearLDE(g, [...this.r, Field(1)]));
     }
 
     // Return the point-value representation [(0, sum0), (1, sum1)]
@@ -114,6 +116,10 @@ export class Prover {
    * @returns The sum of g evaluated over all binary vectors of length v
    */
   getProposedSum(): Field {
+    if (this.g instanceof MultivariatePolynomial)
+      // after summing over every variable only the constant term is left
+      return this.g.sumOverHypercube().evaluate(Array(this.v).fill(Field(0)));
+
     const binaryVectors = this.getBinaryVectors(this.v);
     // accumulator for summation over all v-dimensional binary vectors
     let accumulator = Field(0);
@@ -126,6 +132,31 @@ export class Prover {
     return accumulator;
   }
 
+  /**
+   * Computes g_j(X_j) = sum over b in {0,1}^(v-j) of g(r_1, ..., r_{j-1}, X_j, b) symbolically,
+   * by fixing the first j-1 variables of g and summing out the last v-j
+   *
+   * @param g - The polynomial g.
+   * @param j - The current round.
+   * @returns The point-value representation of g_j at the points 0, 1, ..., max(1, deg_j(g)).
+   */
+  private getRoundJPolynomialOfPolynomial(
+    g: MultivariatePolynomial,
+    j: number,
+  ): Field[] {
+    const g_j = g
+      .fixVariables(new Map(this.r.map((r_i, i) => [i, r_i])))
+      .sumOverHypercube(Array.from({ length: this.v - j }, (_, k) => j + k));
+    // g_j only depends on x_j, the remaining entries of the point are ignored
+    return Array.from({ length: Math.max(1, g_j.degree(j - 1)) + 1 }, (_, t) =>
+      g_j.evaluate(
+        Array.from({ length: this.v }, (_, k) =>
+          k === j - 1 ? Field(t) : Field(0),
+        ),
+      ),
+    );
+  }
+
   /**
    * Generates all binary vectors of a given dimension.
    *
@@ -133,7 +164,7 @@ export class Prover {
    * @returns An array of 2^dimension binary vectors (arrays of Field elements).
    */
   private getBinaryVectors(dimension: number): Field[][] {
-    if(dimension === 0) return[];
+    if (dimension === 0) return [];
     const result = [];
     for (let i = 0; i < 2 ** dimension; i++) {
       result.push(
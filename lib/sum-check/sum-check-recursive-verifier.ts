@@ -0,0 +1,148 @@
+import { Field } from "o1js";
+import { getMultilinearLDE } from "./multilinear-lagrange.ts";
+import { getUnivariateLDE } from "./univariate-lagrange.ts";
+import {
+  ChallengeSource,
+  getSoundnessError,
+  RandomChallengeSource,
+} from "./challenge-source.ts";
+import { MultivariatePolynomial } from "../polynomials/multivariate-polynomial.ts";
+
+/**
+ * Sum check verifier
+ *
+ * verifies correctness of the proposed sum of all evaluations of g in a
+ * v round protocol ending in a single evaluation of g(r)
+ */
+export class Verifier {
+  // number of variables in g
+  private v: number;
+
+  /**
+   * Fixed entries of r to evaluate g at in the final round
+   * At round v, this will be a v-dimensional vector
+   */
+  private r: Field[] = [];
+
+  // either the point value representation of the multivariate function g: {0,1}^v -> F
+  // an array of field elements corresponding to g evaluated at all points in {0,1\}^v
+  // or a polynomial g: F^v -> F of any degree in each variable
+  g: Field[] | MultivariatePolynomial;
+
+  // source of the random challenges r_j
+  private challengeSource: ChallengeSource;
+
+  /**
+   * Creates an instance of the Prover.
+   *
+   * @param proposedSum - The sum proposed by the Prover.
+   * @param g - The point-value representation of the function g, or the polynomial g
+   * @param v - The number of variables in the function g
+   * @param challengeSource - The source of the random challenges, uniform over the whole field by default
+   */
+  constructor(
+    proposedSum: Field,
+    g: Field[] | MultivariatePolynomial,
+    v: number,
+    challengeSource: ChallengeSource = new RandomChallengeSource(),
+  ) {
+    if (g instanceof MultivariatePolynomial) {
+      if (g.v !== v)
+        throw new Error(
+          `The polynomial g has ${g.v} variables, it should have ${v} variables.`,
+        );
+    }
+    // validate that the number of evaluations supplied represents a v-variate function
+    else if (g.length > 2 ** v)
+      throw new Error(
+        `The function g specified by the evaluations [${g
+          .map((e) => e.toString())
+          .join(
+            ", ",
+          )}] should be of size ${2 ** v}, corresponding to a ${v}-variate function.`,
+      );
+
+    this.v = v;
+    this.g = g;
+    this.proposedSum = proposedSum;
+    this.challengeSource = challengeSource;
+  }
+
+  private proposedSum: Field;
+
+  // sum = the proposed sum being proven for this round
+  // g_j = the univariate polynomial supplied by the prover this round
+  // returns the evaluation of g_j at r_j
+  roundJ(g_j: Field[]): Field {
+    const j = this.r.length + 1;
+    if (j > this.v)
+      throw Error(
+        `Too many rounds (j=${j}). The polynomial g is ${this.v}-variate, so there should only be ${this.v} rounds.`,
+      );
+    // a polynomial of degree deg_j(g) is specified by at most deg_j(g) + 1 evaluations
+    const degree = this.getDegrees()[j - 1];
+    if (g_j.length === 0 || g_j.length > degree + 1)
+      throw Error(
+        `Polynomial sent in round ${j} has length ${g_j.length}. Expected length to be between 1 and ${degree + 1} since deg_${j}(g) <= ${degree}.`,
+      );
+
+    // verifier generates random field element r_j
+    const r_j = this.getRandomFieldElement();
+    this.r.push(r_j);
+
+    // evaluate g_j at r_j
+    const g_j_of_r_1 = getUnivariateLDE(g_j, r_j);
+
+    // check that g_j(0) + g_j(1) = C
+    const g_j_of_0 = getUnivariateLDE(g_j, Field(0));
+    const g_j_of_1 = getUnivariateLDE(g_j, Field(1));
+    if (!g_j_of_0.add(g_j_of_1).equals(this.proposedSum).toBoolean()) {
+      throw Error(
+        `Rejected sum at round ${this.r.length}\n g_j(0) + g_j(1) was ${g_j_of_0.add(g_j_of_1)}, expected proposedSum ${this.proposedSum}`,
+      );
+    }
+
+    // run oracle query if all entries in r have been fixed
+    if (this.r.length === this.v) {
+      const gOfR =
+        this.g instanceof MultivariatePolynomial
+          ? this.g.evaluate(this.r)
+          : getMultilinearLDE(this.g, this.r);
+      if (!g_j_of_r_1.equals(gOfR).toBoolean()) {
+        throw Error(`Rejected oracle evaluation at round ${this.r.length}`);
+      }
+    }
+
+    this.proposedSum = g_j_of_r_1;
+    // return latest value of r for prover to fix
+    return r_j;
+  }
+
+  /**
+   * Computes the probability that the verifier accepts a false claim, Σ_j deg_j(g) / |S|
+   *
+   * @returns The soundness error for the configured challenge space.
+   */
+  getSoundnessError(): number {
+    return getSoundnessError(this.getDegrees(), this.challengeSource.size);
+  }
+
+  /**
+   * Computes the degree bound of each round polynomial
+   * Round polynomials are linear for a g given by its evaluations, and the prover sends at least two evaluations
+   * when g has degree 0 in a variable.
+   *
+   * @returns The upper bound on deg(g_j) for each round j.
+   */
+  private getDegrees(): number[] {
+    const degrees =
+      this.g instanceof MultivariatePolynomial
+        ? this.g.degrees()
+        : Array(this.v).fill(1);
+    return degrees.map((d) => Math.max(1, d));
+  }
+
+  getRandomFieldElement(): Field {
+    return this.challengeSource.next();
+  }
+}
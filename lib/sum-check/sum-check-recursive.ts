@@ -1,90 +1,8 @@
 import { Field } from "o1js";
-import { getMultilinearLDE } from "./multilinear-lagrange.ts";
-import { getUnivariateLDE } from "./univariate-lagrange.ts";
 import { Prover } from "./sum-check-prover.ts";
+import { Verifier } from "./sum-check-recursive-verifier.ts";
 
-/**
- * Sum check verifier
- *
- * verifies correctness of the proposed sum of all evaluations of g in a
- * v round protocol ending in a single evaluation of g(r)
- */
-export class Verifier {
-  // number of variables in g
-  private v: number;
-
-  /**
-   * Fixed entries of r to evaluate g at in the final round
-   * At round v, this will be a v-dimensional vector
-   */
-  private r: Field[] = [];
-
-  // point value representation of the multivariate function g: {0,1}^v -> F
-  // an array of field elements corresponding to g evaluated at all points in {0,1\}^v
-  // todo: Update code to represent g:F^v -> F
-  g: Field[];
-
-  /**
-   * Creates an instance of the Prover.
-   *
-   * @param proposedSum - The sum proposed by the Prover.
-   * @param g - The point-value representation of the function g
-   * @param v - The number of variables in the function g
-   */
-  constructor(proposedSum: Field, g: Field[], v: number) {
-    // validate that the number of evaluations supplied represents a v-variate function
-    if (g.length > 2 ** v)
-      throw new Error(
-        `The function g specified by the evaluations [${g
-          .map((e) => e.toString())
-          .join(
-            ", ",
-          )}] should be of size ${2 ** v}, corresponding to a ${v}-variate function.`,
-      );
-
-    this.v = v;
-    this.g = g;
-    this.proposedSum = proposedSum;
-  }
-
-  private proposedSum: Field;
-
-  // sum = the proposed sum being proven for this round
-  // g_j = the univariate polynomial supplied by the prover this round
-  // returns the evaluation of g_j at r_j
-  roundJ(g_j: Field[]): Field {
-    // verifier generates random field element r_j
-    const r_j = this.getRandomFieldElement();
-    this.r.push(r_j);
-
-    // evaluate g_j at r_j
-    const g_j_of_r_1 = getUnivariateLDE(g_j, r_j);
-
-    // check that g_j(0) + g_j(1) = C
-    const g_j_of_0 = getUnivariateLDE(g_j, Field(0));
-    const g_j_of_1 = getUnivariateLDE(g_j, Field(1));
-    if (!g_j_of_0.add(g_j_of_1).equals(this.proposedSum).toBoolean()) {
-      throw Error(`Rejected sum at round ${this.r.length}\n g_j(0) + g_j(1) was ${g_j_of_0.add(g_j_of_1)}, expected proposedSum ${this.proposedSum}`);
-    }
-
-    // run oracle query if all entries in r have been fixed
-    if (this.r.length === this.v) {
-      const gOfR = getMultilinearLDE(this.g, this.r);
-      if (!g_j_of_r_1.equals(gOfR).toBoolean()) {
-        throw Error(`Rejected oracle evaluation at round ${this.r.length}`);
-      }
-      console.log(`Sum check verification ran successfully, g_v(r_v) = ${g_j_of_r_1.toString()} and g(r) = ${gOfR.toString()}`);
-    }
-
-    this.proposedSum = g_j_of_r_1;
-    // return latest value of r for prover to fix
-    return r_j;
-  }
-
-  getRandomFieldElement(): Field {
-    return Field(Math.floor(Math.random() * 100000000000));
-  }
-}
+export { Verifier };
 
 (function runner() {
   // the polynomial g is v variate
@@ -0,0 +1,398 @@
+import { Field } from "o1js";
+import { PolynomialOracle } from "./oracle-sum-check.ts";
+import {
+  getSumCheckTranscript,
+  SumCheckProof,
+  SumCheckVerification,
+  verifySumCheckProof,
+} from "./fiat-shamir.ts";
+import { getUnivariateLDE } from "./univariate-lagrange.ts";
+import { expectObject } from "../util.ts";
+
+/**
+ * Serializable record of a full non-interactive sum check transcript
+ *
+ * Two encodings are supported:
+ * - JSON, with field elements written as decimal strings
+ *     { "version": 1, "claimedSum": "31", "commitment": "...", "v": 3, "degree": 1,
+ *       "rounds": [{ "evaluations": ["10", "21"], "challenge": "..." }, ...],
+ *       "finalEvaluation": "..." }
+ * - binary, with field elements written as 32 byte little-endian integers
+ *     magic "SCT" | version (u8) | v (u32) | degree (u32) | claimedSum | commitment
+ *     | for each round: evaluation count (u32) | evaluations | challenge
+ *     | finalEvaluation
+ *   where all integers are big-endian
+ *
+ * Parsing is strict: unknown versions, missing or extra properties, non-canonical field elements and
+ * trailing bytes are all rejected.
+ */
+
+/**
+ * Version of the transcript encoding
+ */
+export const TRANSCRIPT_FORMAT_VERSION = 1;
+
+// magic bytes at the start of the binary encoding ("SCT")
+const MAGIC = [0x53, 0x43, 0x54];
+
+// number of bytes used to encode a field element
+const FIELD_ELEMENT_BYTES = 32;
+
+/**
+ * Full transcript of a non-interactive sum check proof
+ */
+export interface SumCheckTranscript {
+  // claimed sum of g over {0,1}^v
+  claimedSum: Field;
+  // commitment to g absorbed into the transcript, see `commitToPolynomial`
+  commitment: Field;
+  // number of variables in g
+  v: number;
+  // upper bound on the degree of g in each variable
+  degree: number;
+  // point value representations of g_1, ..., g_v
+  roundPolynomials: Field[][];
+  // challenges r_1, ..., r_v squeezed from the transcript
+  challenges: Field[];
+  // the value g_v(r_v) that the oracle query g(r) is checked against
+  finalEvaluation: Field;
+}
+
+/**
+ * Replays the Fiat-Shamir transcript of a proof to record its challenges and final evaluation
+ *
+ * @param proof - The non-interactive sum check proof.
+ * @param claim - The claimed sum of g over {0,1}^v.
+ * @returns The full transcript of the proof.
+ */
+export function getTranscriptOfProof(
+  proof: SumCheckProof,
+  claim: Field,
+): SumCheckTranscript {
+  const transcript = getSumCheckTranscript(
+    proof.v,
+    proof.degree,
+    proof.commitment,
+    claim,
+  );
+  const challenges = proof.roundPolynomials.map((g_j) => {
+    transcript.absorb(Field(g_j.length), ...g_j);
+    return transcript.squeeze();
+  });
+  const finalEvaluation = getUnivariateLDE(
+    proof.roundPolynomials[proof.v - 1],
+    challenges[proof.v - 1],
+  );
+
+  return {
+    claimedSum: claim,
+    commitment: proof.commitment,
+    v: proof.v,
+    degree: proof.degree,
+    roundPolynomials: proof.roundPolynomials,
+    challenges,
+    finalEvaluation,
+  };
+}
+
+/**
+ * Verifies a sum check transcript
+ * The proof contained in the transcript is verified with `verifySumCheckProof`, and the recorded challenges and
+ * final evaluation must match the ones derived while verifying.
+ *
+ * @param transcript - The transcript to verify.
+ * @param oracle - Oracle for evaluating g, or the point-value representation of g, see `verifySumCheckProof`.
+ * @returns The derived challenges and the final evaluation of g.
+ * @throws Error if the transcript is rejected.
+ */
+export function verifySumCheckTranscript(
+  transcript: SumCheckTranscript,
+  oracle: PolynomialOracle | Field[] | Field[][],
+): SumCheckVerification {
+  const verification = verifySumCheckProof(
+    {
+      v: transcript.v,
+      degree: transcript.degree,
+      commitment: transcript.commitment,
+      roundPolynomials: transcript.roundPolynomials,
+    },
+    transcript.claimedSum,
+    oracle,
+  );
+
+  verification.r.forEach((r_j, i) => {
+    if (!r_j.equals(transcript.challenges[i]).toBoolean())
+      throw Error(
+        `Challenge r_${i + 1} does not match the challenge derived from the transcript.`,
+      );
+  });
+  if (
+    !verification.finalEvaluation.equals(transcript.finalEvaluation).toBoolean()
+  )
+    throw Error("Final evaluation does not match g_v(r_v).");
+
+  return verification;
+}
+
+/**
+ * Encodes a transcript as a JSON string
+ *
+ * @param transcript - The transcript to encode.
+ * @returns The JSON encoding of the transcript.
+ */
+export function transcriptToJSON(transcript: SumCheckTranscript): string {
+  return JSON.stringify({
+    version: TRANSCRIPT_FORMAT_VERSION,
+    claimedSum: transcript.claimedSum.toString(),
+    commitment: transcript.commitment.toString(),
+    v: transcript.v,
+    degree: transcript.degree,
+    rounds: transcript.roundPolynomials.map((g_j, i) => ({
+      evaluations: g_j.map((e) => e.toString()),
+      challenge: transcript.challenges[i].toString(),
+    })),
+    finalEvaluation: transcript.finalEvaluation.toString(),
+  });
+}
+
+/**
+ * Decodes a transcript from its JSON encoding
+ *
+ * @param json - The JSON encoding of a transcript.
+ * @returns The decoded transcript.
+ * @throws Error if the JSON is malformed or does not describe a valid transcript.
+ */
+export function transcriptFromJSON(json: string): SumCheckTranscript {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw Error("Invalid transcript: not valid JSON.");
+  }
+
+  const object = expectObject(parsed, "transcript", "transcript", [
+    "version",
+    "claimedSum",
+    "commitment",
+    "v",
+    "degree",
+    "rounds",
+    "finalEvaluation",
+  ]);
+  if (object.version !== TRANSCRIPT_FORMAT_VERSION)
+    throw Error(
+      `Invalid transcript: unsupported version ${JSON.stringify(object.version)}, expected ${TRANSCRIPT_FORMAT_VERSION}.`,
+    );
+  const v = parsePositiveInteger(object.v, "v");
+  const degree = parsePositiveInteger(object.degree, "degree");
+  if (!Array.isArray(object.rounds) || object.rounds.length !== v)
+    throw Error(`Invalid transcript: expected ${v} rounds.`);
+
+  const roundPolynomials: Field[][] = [];
+  const challenges: Field[] = [];
+  object.rounds.forEach((value: unknown, i: number) => {
+    const round = expectObject(value, "transcript", `round ${i + 1}`, [
+      "evaluations",
+      "challenge",
+    ]);
+    if (!Array.isArray(round.evaluations))
+      throw Error(
+        `Invalid transcript: evaluations of round ${i + 1} must be an array.`,
+      );
+    validateEvaluationCount(round.evaluations.length, degree, i + 1);
+    roundPolynomials.push(
+      round.evaluations.map((e: unknown, k: number) =>
+        parseFieldElement(e, `evaluation ${k} of round ${i + 1}`),
+      ),
+    );
+    challenges.push(
+      parseFieldElement(round.challenge, `challenge of round ${i + 1}`),
+    );
+  });
+
+  return {
+    claimedSum: parseFieldElement(object.claimedSum, "claimedSum"),
+    commitment: parseFieldElement(object.commitment, "commitment"),
+    v,
+    degree,
+    roundPolynomials,
+    challenges,
+    finalEvaluation: parseFieldElement(
+      object.finalEvaluation,
+      "finalEvaluation",
+    ),
+  };
+}
+
+/**
+ * Encodes a transcript in the compact binary format
+ *
+ * @param transcript - The transcript to encode.
+ * @returns The binary encoding of the transcript.
+ */
+export function transcriptToBytes(transcript: SumCheckTranscript): Uint8Array {
+  const fieldCount =
+    3 +
+    transcript.v +
+    transcript.roundPolynomials.reduce((count, g_j) => count + g_j.length, 0);
+  const bytes = new Uint8Array(
+    MAGIC.length + 1 + 8 + 4 * transcript.v + FIELD_ELEMENT_BYTES * fieldCount,
+  );
+  const view = new DataView(bytes.buffer);
+
+  let offset = 0;
+  const writeField = (e: Field) => {
+    let value = e.toBigInt();
+    for (let i = 0; i < FIELD_ELEMENT_BYTES; i++) {
+      bytes[offset + i] = Number(value & 0xffn);
+      value >>= 8n;
+    }
+    offset += FIELD_ELEMENT_BYTES;
+  };
+
+  bytes.set(MAGIC, offset);
+  offset += MAGIC.length;
+  view.setUint8(offset, TRANSCRIPT_FORMAT_VERSION);
+  offset += 1;
+  view.setUint32(offset, transcript.v);
+  view.setUint32(offset + 4, transcript.degree);
+  offset += 8;
+  writeField(transcript.claimedSum);
+  writeField(transcript.commitment);
+  transcript.roundPolynomials.forEach((g_j, i) => {
+    view.setUint32(offset, g_j.length);
+    offset += 4;
+    g_j.forEach(writeField);
+    writeField(transcript.challenges[i]);
+  });
+  writeField(transcript.finalEvaluation);
+
+  return bytes;
+}
+
+/**
+ * Decodes a transcript from the compact binary format
+ *
+ * @param bytes - The binary encoding of a transcript.
+ * @returns The decoded transcript.
+ * @throws Error if the bytes are malformed or do not describe a valid transcript.
+ */
+export function transcriptFromBytes(bytes: Uint8Array): SumCheckTranscript {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const ensureAvailable = (length: number) => {
+    if (offset + length > bytes.length)
+      throw Error("Invalid transcript: unexpected end of input.");
+  };
+  const readUint32 = () => {
+    ensureAvailable(4);
+    const value = view.getUint32(offset);
+    offset += 4;
+    return value;
+  };
+  const readField = (name: string) => {
+    ensureAvailable(FIELD_ELEMENT_BYTES);
+    let value = 0n;
+    for (let i = FIELD_ELEMENT_BYTES - 1; i >= 0; i--) {
+      value = (value << 8n) | BigInt(bytes[offset + i]);
+    }
+    offset += FIELD_ELEMENT_BYTES;
+    if (value >= Field.ORDER)
+      throw Error(
+        `Invalid transcript: ${name} is not a canonical field element.`,
+      );
+    return Field(value);
+  };
+
+  ensureAvailable(MAGIC.length + 1);
+  if (MAGIC.some((byte, i) => bytes[i] !== byte))
+    throw Error("Invalid transcript: missing magic bytes.");
+  offset += MAGIC.length;
+  const version = bytes[offset];
+  offset += 1;
+  if (version !== TRANSCRIPT_FORMAT_VERSION)
+    throw Error(
+      `Invalid transcript: unsupported version ${version}, expected ${TRANSCRIPT_FORMAT_VERSION}.`,
+    );
+
+  const v = parsePositiveInteger(readUint32(), "v");
+  const degree = parsePositiveInteger(readUint32(), "degree");
+  const claimedSum = readField("claimedSum");
+  const commitment = readField("commitment");
+  const roundPolynomials: Field[][] = [];
+  const challenges: Field[] = [];
+  for (let j = 1; j <= v; j++) {
+    const count = readUint32();
+    validateEvaluationCount(count, degree, j);
+    roundPolynomials.push(
+      Array.from({ length: count }, (_, k) =>
+        readField(`evaluation ${k} of round ${j}`),
+      ),
+    );
+    challenges.push(readField(`challenge of round ${j}`));
+  }
+  const finalEvaluation = readField("finalEvaluation");
+
+  if (offset !== bytes.length)
+    throw Error("Invalid transcript: unexpected trailing bytes.");
+
+  return {
+    claimedSum,
+    commitment,
+    v,
+    degree,
+    roundPolynomials,
+    challenges,
+    finalEvaluation,
+  };
+}
+
+/**
+ * Parses a canonical decimal encoding of a field element, an integer in [0, p) without leading zeroes
+ *
+ * @param value - The parsed JSON value.
+ * @param name - The name of the value, used in error messages.
+ * @returns The field element.
+ */
+function parseFieldElement(value: unknown, name: string): Field {
+  if (typeof value !== "string" || !/^(0|[1-9][0-9]*)$/.test(value))
+    throw Error(
+      `Invalid transcript: ${name} must be a decimal string, got ${JSON.stringify(value)}.`,
+    );
+  const bigint = BigInt(value);
+  if (bigint >= Field.ORDER)
+    throw Error(
+      `Invalid transcript: ${name} is not a canonical field element.`,
+    );
+  return Field(bigint);
+}
+
+/**
+ * Parses a positive integer
+ *
+ * @param value - The parsed value.
+ * @param name - The name of the value, used in error messages.
+ * @returns The integer.
+ */
+function parsePositiveInteger(value: unknown, name: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1)
+    throw Error(
+      `Invalid transcript: ${name} must be a positive integer, got ${JSON.stringify(value)}.`,
+    );
+  return value;
+}
+
+/**
+ * Checks that a round polynomial has between 1 and degree + 1 evaluations
+ *
+ * @param count - The number of evaluations in the round polynomial.
+ * @param degree - The upper bound on the degree of g in each variable.
+ * @param j - The round number.
+ */
+function validateEvaluationCount(count: number, degree: number, j: number) {
+  if (count < 1 || count > degree + 1)
+    throw Error(
+      `Invalid transcript: round ${j} has ${count} evaluations, expected between 1 and ${degree + 1}.`,
+    );
+}
@@ -0,0 +1,58 @@
+import { Field, Poseidon } from "o1js";
+import { packBytes } from "../util.ts";
+
+/**
+ * Fiat-Shamir transcript backed by the Poseidon hash
+ *
+ * The prover and verifier each maintain a transcript, absorbing every message the prover sends and squeezing
+ * the verifier's challenges from the hash of everything absorbed so far. Both parties derive the same challenges,
+ * so an interactive public coin protocol becomes non-interactive.
+ *
+ * The transcript only uses Field arithmetic and Poseidon, so it can also be run inside an o1js circuit.
+ */
+export class Transcript {
+  // hash of the domain separator and every element absorbed or squeezed so far
+  private state: Field;
+
+  /**
+   * Creates an instance of a Transcript.
+   *
+   * @param domainSeparator - An ASCII label identifying the protocol, so challenges from different protocols never coincide
+   */
+  constructor(domainSeparator: string) {
+    this.state = Poseidon.hash(stringToFields(domainSeparator));
+  }
+
+  /**
+   * Absorbs prover messages or public inputs into the transcript
+   *
+   * @param elements - The field elements to absorb.
+   */
+  absorb(...elements: Field[]) {
+    this.state = Poseidon.hash([this.state, ...elements]);
+  }
+
+  /**
+   * Squeezes a challenge from the transcript
+   * Each call returns a fresh challenge that depends on everything absorbed before it
+   *
+   * @returns A challenge field element.
+   */
+  squeeze(): Field {
+    this.state = Poseidon.hash([this.state]);
+    return this.state;
+  }
+}
+
+/**
+ * Packs an ASCII string into field elements, 31 characters per element
+ *
+ * @param label - The ASCII string to pack.
+ * @returns The length of the string followed by the packed characters.
+ */
+function stringToFields(label: string): Field[] {
+  const bytes = new TextEncoder().encode(label);
+  if (bytes.length !== label.length)
+    throw Error("Domain separator must be a valid ASCII string.");
+  return [Field(label.length), ...packBytes(bytes)];
+}
@@ -1,10 +1,29 @@
 import { Field } from "o1js";
+import { BarycentricInterpolator } from "../polynomials/barycentric-interpolator.ts";
+
+// interpolators over {0, 1, ..., n-1} by number of nodes n, shared by all calls to getConsecutiveInterpolator
+const interpolators = new Map<number, BarycentricInterpolator>();
+
+/**
+ * Returns the interpolator over the nodes {0, 1, ..., n-1}, building its weights on the first call for each n
+ *
+ * @param n - The number of nodes.
+ * @returns The shared interpolator.
+ */
+export function getConsecutiveInterpolator(n: number): BarycentricInterpolator {
+  let interpolator = interpolators.get(n);
+  if (interpolator === undefined) {
+    interpolator = BarycentricInterpolator.consecutive(n);
+    interpolators.set(n, interpolator);
+  }
+  return interpolator;
+}
 
 /**
  * Interpolates a set of values into a univariate Lagrange polynomial and evaluates that polynomial at a given point.
  *
  * The interpolation nodes are {0, 1, ..., n-1}, where `n` is the length of the `values` array, and each node
- * is associated with the corresponding value at that index.
+ * is associated with the corresponding value at that index. See `BarycentricInterpolator` for arbitrary nodes.
  *
  * @param values - An array of `Field` elements representing the values to interpolate. Each value corresponds to a distinct interpolation point.
  * @param r - A `Field` element at which the interpolated polynomial is to be evaluated.
@@ -16,52 +35,47 @@ export function getUnivariateLDE(values: Field[], r: Field): Field {
     throw new Error("The 'values' array cannot be empty.");
   }
 
-  // If r is an integer within the range of the interpolation nodes, return the corresponding value directly.
-  if (r.lessThan(values.length).toBoolean()) {
-    return values[Number(r.toBigInt())];
-  }
-
-  // Define the interpolation nodes as integers from 0 to n-1, where n is the number of values.
-  const nodes: Field[] = Array.from({ length: values.length }, (_, index) =>
-    Field(index),
-  );
-
-  let accumulator = Field(0);
-  // Iterate over each interpolation node to compute the Lagrange basis and accumulate the result
-  for (let i = 0; i < nodes.length; i++) {
-    accumulator = accumulator.add(
-      values[i].mul(getUnivariateLagrangeBasis(i, nodes, r)),
-    );
-  }
-
-  return accumulator;
+  // the weights only depend on n, so each interpolator is built once and reused by every later call
+  return getConsecutiveInterpolator(values.length).evaluate(values, r);
 }
 
 /**
- * Computes the Lagrange basis polynomial for a given index and evaluates it at a specific point.
+ * Evaluates the same polynomial as `getUnivariateLDE` using only field arithmetic, so it can run inside an o1js circuit
  *
- * @param index - The index of the basis polynomial to compute.
- * @param nodes - An array of `Field` elements representing the interpolation nodes.
- * @param x - The `Field` element at which to evaluate the basis polynomial.
- * @returns The value of the Lagrange basis polynomial \( L_i(x) \) evaluated at point `x`.
+ * L_i(r) = w_i · Π_{k<i} (r - k) · Π_{k>i} (r - k) with the constant weights w_i = 1 / Π_{k != i} (i - k), so the
+ * prefix and suffix products give every basis value with O(n) multiplications and no division by a variable.
+ * Unlike the barycentric formula this needs no special case when r is a node.
+ *
+ * @param values - The values of the polynomial at the nodes {0, 1, ..., n-1}.
+ * @param r - The point at which to evaluate, may be a circuit variable.
+ * @returns The result of evaluating the Lagrange polynomial at point `r`.
+ * @throws Will throw an error if the `values` array is empty.
  */
-function getUnivariateLagrangeBasis(
-  index: number,
-  nodes: Field[],
-  x: Field,
-): Field {
-  // Initialize the accumulator for the product over all terms except when j = index.
-  let accumulator = Field(1);
-
-  for (let j = 0; j < nodes.length; j++) {
-    if (j === index) continue;
+export function getProvableUnivariateLDE(values: Field[], r: Field): Field {
+  const n = values.length;
+  if (n === 0) {
+    throw new Error("The 'values' array cannot be empty.");
+  }
 
-    const numerator = x.sub(nodes[j]);
-    //  j !== index so this is never 0
-    const denominator = nodes[index].sub(nodes[j]);
+  // suffixes[i] = Π_{k>i} (r - k)
+  const suffixes: Field[] = Array(n);
+  suffixes[n - 1] = Field(1);
+  for (let i = n - 2; i >= 0; i--)
+    suffixes[i] = suffixes[i + 1].mul(r.sub(i + 1));
 
-    const term = numerator.div(denominator);
-    accumulator = accumulator.mul(term);
+  let accumulator = Field(0);
+  // prefix = Π_{k<i} (r - k)
+  let prefix = Field(1);
+  for (let i = 0; i < n; i++) {
+    // Π_{k != i} (i - k) = i! · (-1)^(n-1-i) · (n-1-i)!, a constant
+    let denominator = Field(1);
+    for (let k = 0; k < n; k++)
+      if (k !== i) denominator = denominator.mul(i - k);
+    // scaling by the constant first costs no constraint
+    accumulator = accumulator.add(
+      values[i].mul(denominator.inv()).mul(prefix).mul(suffixes[i]),
+    );
+    prefix = prefix.mul(r.sub(i));
   }
 
   return accumulator;
@@ -1,3 +1,5 @@
+import { Field } from "o1js";
+
 /**
  * Converts an ASCII character to its numeric ASCII code.
  *
@@ -66,3 +68,142 @@ export function generateBinaryVertices(d: number): number[][] {
 
   return vertices;
 }
+
+/**
+ * Data accepted by the message extension functions
+ * - strings are encoded as UTF-8 bytes, so ASCII strings have one byte per character
+ * - Uint8Array is a sequence of raw bytes
+ * - bigint[] and Field[] are sequences of field elements
+ */
+export type MessageInput = string | Uint8Array | bigint[] | Field[];
+
+/**
+ * Options for converting a message into field elements
+ */
+export interface MessageEncodingOptions {
+  // pack up to BYTES_PER_FIELD_ELEMENT bytes into each field element rather than one byte per element
+  packed?: boolean;
+}
+
+/**
+ * Number of bytes packed into each field element, 256^31 < p so any 31 bytes fit in a single element
+ */
+export const BYTES_PER_FIELD_ELEMENT = 31;
+
+/**
+ * Converts a message into the field elements interpolated by the message extension functions
+ * Byte inputs give one field element per byte, or one per 31 bytes when packed. Field element inputs are used as is.
+ *
+ * @param message - The message.
+ * @param options - Whether to pack bytes into field elements.
+ * @returns The field elements of the message.
+ * @throws Error if a bigint is not a field element, or packing is requested for an input that is not bytes.
+ */
+export function messageToFields(
+  message: MessageInput,
+  options: MessageEncodingOptions = {},
+): Field[] {
+  if (typeof message === "string" || message instanceof Uint8Array) {
+    const bytes =
+      typeof message === "string" ? new TextEncoder().encode(message) : message;
+    return options.packed
+      ? packBytes(bytes)
+      : Array.from(bytes, (byte) => Field(byte));
+  }
+
+  if (options.packed)
+    throw Error(
+      "Packing only applies to byte messages, strings and Uint8Array, not to field elements.",
+    );
+  return message.map((entry, i) => {
+    if (typeof entry !== "bigint") return entry;
+    if (entry < 0n || entry >= Field.ORDER)
+      throw Error(
+        `Message entry ${i} is ${entry}, which is not a field element.`,
+      );
+    return Field(entry);
+  });
+}
+
+/**
+ * Packs bytes into field elements, 31 bytes per element with the first byte most significant
+ * The last element holds the remaining bytes when the length is not a multiple of 31.
+ *
+ * @param bytes - The bytes to pack.
+ * @returns ceil(bytes.length / 31) field elements.
+ */
+export function packBytes(bytes: Uint8Array): Field[] {
+  const elements: Field[] = [];
+  for (let i = 0; i < bytes.length; i += BYTES_PER_FIELD_ELEMENT) {
+    let packed = 0n;
+    for (const byte of bytes.subarray(i, i + BYTES_PER_FIELD_ELEMENT)) {
+      packed = (packed << 8n) | BigInt(byte);
+    }
+    elements.push(Field(packed));
+  }
+  return elements;
+}
+
+/**
+ * Recovers bytes packed with `packBytes`
+ * The length is required since leading zero bytes of an element do not change its value.
+ *
+ * @param elements - The packed field elements.
+ * @param byteLength - The number of bytes that were packed.
+ * @returns The original bytes, decode with `new TextDecoder().decode` to recover a string.
+ * @throws Error if the elements cannot hold exactly byteLength packed bytes.
+ */
+export function unpackBytes(elements: Field[], byteLength: number): Uint8Array {
+  if (
+    !Number.isInteger(byteLength) ||
+    byteLength < 0 ||
+    elements.length !== Math.ceil(byteLength / BYTES_PER_FIELD_ELEMENT)
+  )
+    throw Error(
+      `${elements.length} packed field elements cannot hold ${byteLength} bytes.`,
+    );
+
+  const bytes = new Uint8Array(byteLength);
+  elements.forEach((element, i) => {
+    const start = i * BYTES_PER_FIELD_ELEMENT;
+    const length = Math.min(BYTES_PER_FIELD_ELEMENT, byteLength - start);
+    let packed = element.toBigInt();
+    for (let j = length - 1; j >= 0; j--) {
+      bytes[start + j] = Number(packed & 0xffn);
+      packed >>= 8n;
+    }
+    if (packed !== 0n)
+      throw Error(`Packed field element ${i} does not fit in ${length} bytes.`);
+  });
+  return bytes;
+}
+
+/**
+ * Checks that a parsed JSON value is an object with exactly the expected properties
+ *
+ * @param value - The parsed JSON value.
+ * @param format - The name of the encoded structure, errors start with "Invalid <format>:".
+ * @param name - The name of the value, used in error messages.
+ * @param keys - The expected properties.
+ * @returns The value as an object.
+ * @throws Error if the value is not an object or its properties differ from `keys`.
+ */
+export function expectObject(
+  value: unknown,
+  format: string,
+  name: string,
+  keys: string[],
+): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value))
+    throw Error(`Invalid ${format}: ${name} must be an object.`);
+  const actual = Object.keys(value);
+  const missing = keys.filter((key) => !actual.includes(key));
+  const extra = actual.filter((key) => !keys.includes(key));
+  if (missing.length > 0)
+    throw Error(`Invalid ${format}: ${name} is missing ${missing.join(", ")}.`);
+  if (extra.length > 0)
+    throw Error(
+      `Invalid ${format}: ${name} has unexpected properties ${extra.join(", ")}.`,
+    );
+  return value as Record<string, unknown>;
+}
@@ -0,0 +1,129 @@
+import { Field } from "o1js";
+import {
+  circuitFromJSON,
+  circuitToJSON,
+  createLayeredCircuit,
+  evaluateLayeredCircuit,
+  evaluateWiringPredicates,
+  getWiringPredicateTables,
+  LayeredCircuitBuilder,
+} from "../../lib/circuits/layered-circuit.ts";
+import { getMultilinearLDE } from "../../lib/sum-check/multilinear-lagrange.ts";
+
+// outputs (x_0 x_1)^2 + x_2 x_3 and (x_2 x_3)(x_2 + x_3)
+const builder = new LayeredCircuitBuilder(3, 4);
+builder.add(0, 0, 1);
+builder.mul(0, 1, 2);
+builder.mul(1, 0, 0);
+builder.mul(1, 1, 2);
+builder.add(1, 1, 2);
+builder.mul(2, 0, 1);
+builder.mul(2, 2, 3);
+builder.add(2, 2, 3);
+const circuit = builder.build();
+
+describe("Layered arithmetic circuits", () => {
+  it("should build a circuit layer by layer", () => {
+    expect(circuit.inputSize).toBe(4);
+    expect(circuit.layers.map((layer) => layer.length)).toEqual([2, 3, 3]);
+    expect(circuit.layers[0][1]).toEqual({ type: "mul", left: 1, right: 2 });
+    expect(new LayeredCircuitBuilder(2, 2).add(1, 0, 1)).toBe(0);
+    expect(() => new LayeredCircuitBuilder(2, 2).add(2, 0, 1)).toThrow(
+      "Layer 2 does not exist in a circuit of depth 2.",
+    );
+  });
+
+  it("should evaluate every layer of a circuit", () => {
+    const values = evaluateLayeredCircuit(
+      circuit,
+      [3, 2, 5, 4].map((x) => Field(x)),
+    );
+    expect(values.length).toBe(4);
+    expect(values[2]).toEqual([Field(6), Field(20), Field(9)]);
+    expect(values[1]).toEqual([Field(36), Field(180), Field(29)]);
+    expect(values[0]).toEqual([Field(36 + 180), Field(180 * 29)]);
+  });
+
+  it("should reject gates referring to gates outside the next layer", () => {
+    expect(() =>
+      createLayeredCircuit([[{ type: "add", left: 0, right: 2 }]], 2),
+    ).toThrow("Gate 0 of layer 0 has inputs (0, 2) outside 0..1.");
+    expect(() => createLayeredCircuit([], 2)).toThrow(
+      "A circuit must have at least one layer of gates.",
+    );
+    const incomplete = new LayeredCircuitBuilder(2, 2);
+    incomplete.add(0, 0, 0);
+    expect(() => incomplete.build()).toThrow("Layer 1 has no gates.");
+  });
+});
+
+describe("Wiring predicates", () => {
+  it("should compute the wiring predicate tables of a layer", () => {
+    const { add, mult } = getWiringPredicateTables(circuit, 0);
+    // layer 0 has 1 variable and layer 1 has 2 variables, entry (a, b, c) is at a · 16 + b · 4 + c
+    expect(add.length).toBe(32);
+    expect(add[0 * 16 + 0 * 4 + 1]).toEqual(Field(1));
+    expect(mult[1 * 16 + 1 * 4 + 2]).toEqual(Field(1));
+    expect(add.filter((e) => e.equals(1).toBoolean()).length).toBe(1);
+    expect(mult.filter((e) => e.equals(1).toBoolean()).length).toBe(1);
+  });
+
+  it("should evaluate the wiring predicate extensions to match the dense tables", () => {
+    for (let i = 0; i < circuit.layers.length; i++) {
+      const { add, mult } = getWiringPredicateTables(circuit, i);
+      const point = Array.from({ length: Math.log2(add.length) }, () =>
+        Field.random(),
+      );
+      expect(evaluateWiringPredicates(circuit, i, point)).toEqual({
+        add: getMultilinearLDE(add, point),
+        mult: getMultilinearLDE(mult, point),
+      });
+    }
+  });
+
+  it("should agree with the wiring predicates on the boolean hypercube", () => {
+    // (a, b, c) = (1, 1, 2) is the multiplication gate 1 of layer 0
+    const point = [1, 0, 1, 1, 0].map((x) => Field(x));
+    expect(evaluateWiringPredicates(circuit, 0, point)).toEqual({
+      add: Field(0),
+      mult: Field(1),
+    });
+    expect(() => evaluateWiringPredicates(circuit, 0, [Field(0)])).toThrow(
+      "Incorrect input vector length, expected 5 variables but received 1",
+    );
+  });
+});
+
+describe("Circuit files", () => {
+  it("should round trip a circuit through JSON", () => {
+    const json = circuitToJSON(circuit);
+    expect(JSON.parse(json).version).toBe(1);
+    expect(circuitFromJSON(json)).toEqual(circuit);
+  });
+
+  it("should reject malformed circuit files", () => {
+    expect(() => circuitFromJSON("{")).toThrow(
+      "Invalid circuit: not valid JSON.",
+    );
+    expect(() =>
+      circuitFromJSON('{"version":2,"inputSize":2,"layers":[]}'),
+    ).toThrow("Invalid circuit: unsupported version 2, expected 1.");
+    expect(() =>
+      circuitFromJSON(
+        '{"version":1,"inputSize":2,"layers":[[{"type":"sub","left":0,"right":1}]]}',
+      ),
+    ).toThrow(
+      'Invalid circuit: Gate 0 of layer 0 has unknown type "sub", expected "add" or "mul".',
+    );
+    expect(() =>
+      circuitFromJSON(
+        '{"version":1,"inputSize":2,"layers":[[{"type":"add","left":0}]]}',
+      ),
+    ).toThrow("Invalid circuit: gate 0 of layer 0 is missing right.");
+    expect(() =>
+      circuitFromJSON(
+        '{"version":1,"inputSize":2,"layers":[[{"type":"add","left":"0","right":1}]]}',
+      ),
+    ).toThrow("Invalid circuit: inputs of gate 0 of layer 0 must be numbers.");
+  });
+});
@@ -0,0 +1,87 @@
+import { Field } from "o1js";
+import {
+  createLayeredCircuit,
+  evaluateLayeredCircuit,
+  LayeredCircuitBuilder,
+} from "../../lib/circuits/layered-circuit.ts";
+import {
+  GKRProver,
+  GKRVerifier,
+  proveCircuitEvaluation,
+} from "../../lib/gkr/gkr.ts";
+
+// outputs (x_0 x_1)^2 + x_2 x_3 and (x_2 x_3)(x_2 + x_3)
+const builder = new LayeredCircuitBuilder(3, 4);
+builder.add(0, 0, 1);
+builder.mul(0, 1, 2);
+builder.mul(1, 0, 0);
+builder.mul(1, 1, 2);
+builder.add(1, 1, 2);
+builder.mul(2, 0, 1);
+builder.mul(2, 2, 3);
+builder.add(2, 2, 3);
+const circuit = builder.build();
+const inputs = [3, 2, 5, 4].map((x) => Field(x));
+
+describe("GKR protocol", () => {
+  it("should verify the outputs of a circuit", () => {
+    expect(proveCircuitEvaluation(circuit, inputs)).toEqual([
+      Field(216),
+      Field(5220),
+    ]);
+  });
+
+  it("should verify a circuit with a single gate", () => {
+    const single = createLayeredCircuit(
+      [[{ type: "mul", left: 0, right: 1 }]],
+      2,
+    );
+    expect(proveCircuitEvaluation(single, [Field(6), Field(7)])).toEqual([
+      Field(42),
+    ]);
+  });
+
+  it("should reject a prover that tampers with a layer", () => {
+    const values = evaluateLayeredCircuit(circuit, inputs);
+    values[2][1] = values[2][1].add(1);
+    expect(() => proveCircuitEvaluation(circuit, inputs, values)).toThrow(
+      "Polynomial g_1 is incorrect.",
+    );
+  });
+
+  it("should reject a prover that tampers with the outputs", () => {
+    const values = evaluateLayeredCircuit(circuit, inputs);
+    values[0][0] = Field(217);
+    expect(() => proveCircuitEvaluation(circuit, inputs, values)).toThrow(
+      "Polynomial g_1 is incorrect.",
+    );
+  });
+
+  it("should reject a prover that evaluates the circuit on different inputs", () => {
+    // every layer is consistent with the one below it, so only the final check against the inputs fails
+    const values = evaluateLayeredCircuit(
+      circuit,
+      [3, 2, 5, 5].map((x) => Field(x)),
+    );
+    expect(() => proveCircuitEvaluation(circuit, inputs, values)).toThrow(
+      "m_d != W~_d(r_d), the claim about the inputs is incorrect.",
+    );
+  });
+
+  it("should reject a line restriction of too high degree", () => {
+    const prover = new GKRProver(
+      circuit,
+      evaluateLayeredCircuit(circuit, inputs),
+    );
+    const verifier = new GKRVerifier(circuit, inputs, prover.getOutputs());
+    const v = prover.startLayer(verifier.getOutputPoint());
+    let r_j = undefined;
+    for (let j = 1; j <= v; j++) {
+      r_j = verifier.verifyRoundJPolynomial(prover.getRoundJPolynomial(r_j));
+    }
+    const q = prover.getLineRestriction(r_j as Field);
+    expect(() => verifier.verifyLineRestriction([...q, Field(0)])).toThrow(
+      "Line restriction sent in layer 0 has length 4. Expected length to be between 1 and 3 since W~_1 has 2 variables.",
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import { Field } from "o1js";
+import {
+  countTriangles,
+  createGraph,
+  getAdjacencyTable,
+  graphFromAdjacencyMatrix,
+  parseEdgeList,
+} from "../../lib/graph/graph.ts";
+import {
+  evaluateAdjacencyExtension,
+  proveTriangleCount,
+  TriangleCountingProver,
+} from "../../lib/graph/triangle-counting.ts";
+import { getMultilinearLDE } from "../../lib/sum-check/multilinear-lagrange.ts";
+
+// two triangles {0, 1, 2} and {1, 2, 3} sharing the edge {1, 2}, plus a pendant vertex 4
+const graph = parseEdgeList(
+  [
+    "c two triangles sharing an edge",
+    "p edge 5 6",
+    "e 1 2",
+    "e 1 3",
+    "e 2 3",
+    "e 2 4",
+    "e 3 4",
+    "e 4 5",
+  ].join("\n"),
+);
+
+describe("Graph input", () => {
+  it("should parse edge lists and adjacency matrices into the same graph", () => {
+    expect(graph.n).toBe(5);
+    const fromMatrix = graphFromAdjacencyMatrix([
+      [0, 1, 1, 0, 0],
+      [1, 0, 1, 1, 0],
+      [1, 1, 0, 1, 0],
+      [0, 1, 1, 0, 1],
+      [0, 0, 0, 1, 0],
+    ]);
+    expect(fromMatrix).toEqual(graph);
+    expect(countTriangles(graph)).toBe(2);
+  });
+
+  it("should reject invalid graphs", () => {
+    expect(() => createGraph(3, [[0, 3]])).toThrow(
+      "Edge (0, 3) refers to a vertex outside 0..2.",
+    );
+    expect(() => createGraph(3, [[1, 1]])).toThrow(
+      "Self loop at vertex 1 is not allowed.",
+    );
+    expect(() =>
+      createGraph(3, [
+        [0, 1],
+        [1, 0],
+      ]),
+    ).toThrow("Edge (1, 0) is listed more than once.");
+    expect(() =>
+      graphFromAdjacencyMatrix([
+        [0, 1],
+        [0, 0],
+      ]),
+    ).toThrow(
+      "Adjacency matrix must be symmetric, entries (0, 1) and (1, 0) differ.",
+    );
+    expect(() => parseEdgeList("p edge 2 2\ne 1 2")).toThrow(
+      "Expected 2 edges but found 1 edges.",
+    );
+    expect(() => parseEdgeList("e 1 2")).toThrow(
+      'Line 1 appears before the problem line "p edge <vertices> <edges>".',
+    );
+  });
+});
+
+describe("Triangle counting interactive proof", () => {
+  it("should evaluate the adjacency matrix extension from the edge stream", () => {
+    const table = getAdjacencyTable(graph);
+    const points = [
+      [1, 0, 1, 0, 1, 1].map(Field),
+      [7, 123, 5, 98765, 2, 31].map(Field),
+    ];
+    points.forEach((r) => {
+      expect(evaluateAdjacencyExtension(graph, r)).toEqual(
+        getMultilinearLDE(table, r),
+      );
+    });
+  });
+
+  it("should propose 6 times the number of triangles", () => {
+    const prover = new TriangleCountingProver(graph);
+    expect(prover.v).toBe(9);
+    expect(prover.getProposedSum()).toEqual(Field(12));
+    // g has degree 2 in each variable
+    expect(prover.getRoundJPolynomial().length).toBe(3);
+  });
+
+  it("should prove the number of triangles", () => {
+    expect(proveTriangleCount(graph)).toEqual(Field(2));
+    const k4 = createGraph(4, [
+      [0, 1],
+      [0, 2],
+      [0, 3],
+      [1, 2],
+      [1, 3],
+      [2, 3],
+    ]);
+    expect(proveTriangleCount(k4)).toEqual(Field(countTriangles(k4)));
+  });
+
+  it("should reject an incorrect triangle count", () => {
+    expect(() => proveTriangleCount(graph, Field(3))).toThrow(
+      "Polynomial g_1 is incorrect.",
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { Field } from "o1js";
+import { Matrix } from "../../lib/matrix/matrix.ts";
+import {
+  freivaldsVerify,
+  freivaldsVerifyUniform,
+} from "../../lib/matrix/freivalds.ts";
+
+describe("Matrix", () => {
+  it("should multiply matrices and vectors", () => {
+    const A = Matrix.from([
+      [1, 2],
+      [3, 4],
+    ]);
+    const B = Matrix.from([
+      [5, 6],
+      [7, 8],
+    ]);
+    expect(
+      A.mul(B).equals(
+        Matrix.from([
+          [19, 22],
+          [43, 50],
+        ]),
+      ),
+    ).toBe(true);
+    expect(A.mulVector([Field(1), Field(-1)])).toEqual([Field(-1), Field(-1)]);
+    expect(A.mul(Matrix.identity(2)).equals(A)).toBe(true);
+    expect(A.mul(Matrix.zeros(2, 3)).equals(Matrix.zeros(2, 3))).toBe(true);
+  });
+
+  it("should multiply non-square matrices", () => {
+    const A = Matrix.from([[1, 2, 3]]);
+    const B = Matrix.from([[1], [2], [3]]);
+    expect(A.mul(B).equals(Matrix.from([[14]]))).toBe(true);
+    expect(B.mul(A).rows).toBe(3);
+    expect(B.mul(A).get(2, 2)).toEqual(Field(9));
+  });
+
+  it("should throw on invalid dimensions", () => {
+    expect(() => new Matrix([])).toThrow(
+      "A matrix must have at least one row and one column.",
+    );
+    expect(() => Matrix.from([[1, 2], [3]])).toThrow(
+      "Row 1 has 1 entries, expected 2 entries.",
+    );
+    expect(() => Matrix.identity(2).mul(Matrix.identity(3))).toThrow(
+      "Cannot multiply a 2x2 matrix by a 3x3 matrix.",
+    );
+    expect(() => Matrix.identity(2).mulVector([Field(1)])).toThrow(
+      "Cannot multiply a 2x2 matrix by a vector of length 1.",
+    );
+  });
+});
+
+describe("Freivalds' algorithm", () => {
+  const A = Matrix.random(6, 6);
+  const B = Matrix.random(6, 6);
+  const C = A.mul(B);
+
+  it("should accept the correct product", () => {
+    expect(freivaldsVerify(A, B, C, 3)).toEqual({
+      accepted: true,
+      repetitions: 3,
+    });
+    expect(freivaldsVerifyUniform(A, B, C, 3)).toEqual({
+      accepted: true,
+      repetitions: 3,
+    });
+  });
+
+  it("should reject an incorrect product and return the rejection evidence", () => {
+    const entries = C.entries.map((row) => [...row]);
+    entries[4][2] = entries[4][2].add(1);
+    const wrongC = new Matrix(entries);
+
+    [
+      freivaldsVerify(A, B, wrongC, 3),
+      freivaldsVerifyUniform(A, B, wrongC, 3),
+    ].forEach((result) => {
+      expect(result.accepted).toBe(false);
+      expect(result.repetitions).toBe(1);
+      const { x, row, ABx, Cx } = result.rejection!;
+      expect(row).toBe(4);
+      expect(ABx).toEqual(A.mulVector(B.mulVector(x)));
+      expect(Cx).toEqual(wrongC.mulVector(x));
+      expect(ABx[row]).not.toEqual(Cx[row]);
+    });
+  });
+
+  it("should throw on incompatible dimensions", () => {
+    expect(() => freivaldsVerify(A, B, Matrix.identity(2))).toThrow(
+      "Incompatible dimensions",
+    );
+    expect(() => freivaldsVerify(A, B, C, 0)).toThrow(
+      "Number of repetitions must be a positive integer.",
+    );
+  });
+});
@@ -0,0 +1,39 @@
+import { Field } from "o1js";
+import { Matrix } from "../../lib/matrix/matrix.ts";
+import { solveLinearSystem } from "../../lib/matrix/linear-system.ts";
+
+describe("Gaussian elimination", () => {
+  it("should solve a nonsingular system", () => {
+    const A = Matrix.from([
+      [2, 1, -1],
+      [-3, -1, 2],
+      [-2, 1, 2],
+    ]);
+    const x = solveLinearSystem(
+      A,
+      [8, -11, -3].map((e) => Field(e)),
+    );
+    expect(x).toEqual([Field(2), Field(3), Field(-1)]);
+  });
+
+  it("should solve an underdetermined system", () => {
+    const A = Matrix.from([
+      [1, 2, 3],
+      [2, 4, 6],
+    ]);
+    const b = [Field(6), Field(12)];
+    const x = solveLinearSystem(A, b) as Field[];
+    expect(A.mulVector(x)).toEqual(b);
+  });
+
+  it("should detect an inconsistent system", () => {
+    const A = Matrix.from([
+      [1, 1],
+      [2, 2],
+    ]);
+    expect(solveLinearSystem(A, [Field(1), Field(3)])).toBeUndefined();
+    expect(() => solveLinearSystem(A, [Field(1)])).toThrow(
+      "Cannot solve a 2x2 system with a right hand side of length 1.",
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import { Field } from "o1js";
+import { Matrix } from "../../lib/matrix/matrix.ts";
+import {
+  MatMultProver,
+  MatMultVerifier,
+  verifyMatrixProduct,
+} from "../../lib/matrix/matmult-protocol.ts";
+import { getMultilinearLDE } from "../../lib/sum-check/multilinear-lagrange.ts";
+
+describe("MatMult interactive proof", () => {
+  const A = Matrix.from([
+    [1, 2, 3, 4],
+    [5, 6, 7, 8],
+    [9, 10, 11, 12],
+    [13, 14, 15, 16],
+  ]);
+  const B = Matrix.from([
+    [2, 0, 1, 3],
+    [1, 1, 0, 2],
+    [0, 4, 1, 1],
+    [5, 2, 2, 0],
+  ]);
+  const C = A.mul(B);
+
+  it("should build the prover's tables from the multilinear extensions of A and B", () => {
+    const r1 = [Field(3), Field(7)];
+    const r2 = [Field(11), Field(13)];
+    const prover = new MatMultProver(A, B, r1, r2);
+    const tableC = C.entries.flat();
+    // the proposed sum is the multilinear extension of AB at (r1, r2)
+    expect(prover.getProposedSum()).toEqual(
+      getMultilinearLDE(tableC, [...r1, ...r2]),
+    );
+    expect(prover.getRoundJPolynomial().length).toBe(3);
+  });
+
+  it("should accept the correct product", () => {
+    expect(() => verifyMatrixProduct(A, B, C)).not.toThrow();
+  });
+
+  it("should accept the correct product for dimensions that are not powers of two", () => {
+    const A = Matrix.random(3, 3);
+    const B = Matrix.random(3, 3);
+    expect(() => verifyMatrixProduct(A, B, A.mul(B))).not.toThrow();
+  });
+
+  it("should reject an incorrect product", () => {
+    const entries = C.entries.map((row) => [...row]);
+    entries[2][1] = entries[2][1].add(1);
+    expect(() => verifyMatrixProduct(A, B, new Matrix(entries))).toThrow(
+      "Polynomial g_1 is incorrect.",
+    );
+  });
+
+  it("should reject a prover that uses a different matrix", () => {
+    const verifier = new MatMultVerifier(A, B, C);
+    const prover = new MatMultProver(
+      A,
+      Matrix.identity(4),
+      verifier.r1,
+      verifier.r2,
+    );
+    expect(() =>
+      verifier.verifyRoundJPolynomial(prover.getRoundJPolynomial()),
+    ).toThrow("Polynomial g_1 is incorrect.");
+  });
+
+  it("should throw on matrices that are not square", () => {
+    expect(() => verifyMatrixProduct(A, B, Matrix.zeros(4, 3))).toThrow(
+      "MatMult requires three 4x4 matrices, received a 4x3 matrix.",
+    );
+  });
+});
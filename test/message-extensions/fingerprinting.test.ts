@@ -0,0 +1,67 @@
+import { Field } from "o1js";
+import {
+  Alice,
+  Bob,
+  FIELD_ELEMENT_BITS,
+  getCommunicationCost,
+  getFalseAcceptProbability,
+  runFingerprintingProtocol,
+} from "../../lib/message-extensions/fingerprinting.ts";
+import { getReedSolomon } from "../../lib/message-extensions/reed-solomon.ts";
+
+describe("Reed-Solomon fingerprinting", () => {
+  it("should accept equal files in every repetition", () => {
+    const file = "the quick brown fox jumps over the lazy dog";
+    const result = runFingerprintingProtocol(file, file, 5);
+    expect(result.accepted).toBe(true);
+    expect(result.repetitions).toBe(5);
+    expect(result.fingerprints.length).toBe(5);
+  });
+
+  it("should reject files that differ in a single character", () => {
+    const result = runFingerprintingProtocol(
+      "the quick brown fox jumps over the lazy dog",
+      "the quick brown fox jumps over the lazy cog",
+      3,
+    );
+    expect(result.accepted).toBe(false);
+  });
+
+  it("should send Alice's Reed-Solomon evaluation at the chosen point", () => {
+    const fingerprint = new Alice("fingerprint").sendFingerprint();
+    expect(fingerprint.value).toEqual(
+      getReedSolomon("fingerprint", fingerprint.r),
+    );
+    expect(new Bob("fingerprint").verifyFingerprint(fingerprint)).toBe(true);
+    expect(new Bob("fingerprinT").verifyFingerprint(fingerprint)).toBe(false);
+  });
+
+  it("should reject a fingerprint with the wrong value", () => {
+    const fingerprint = new Alice("abc").sendFingerprint();
+    const tampered = { r: fingerprint.r, value: fingerprint.value.add(1) };
+    expect(new Bob("abc").verifyFingerprint(tampered)).toBe(false);
+  });
+
+  it("should report the communication cost and false-accept bound", () => {
+    expect(FIELD_ELEMENT_BITS).toBe(255);
+    expect(getCommunicationCost()).toBe(510);
+    expect(getCommunicationCost(4)).toBe(2040);
+    expect(getFalseAcceptProbability(1)).toBe(0);
+    expect(getFalseAcceptProbability(11)).toBe(10 / Number(Field.ORDER));
+    expect(getFalseAcceptProbability(11, 2)).toBe(
+      (10 / Number(Field.ORDER)) ** 2,
+    );
+
+    const result = runFingerprintingProtocol("abcd", "abcd", 2);
+    expect(result.communicationBits).toBe(1020);
+    expect(result.falseAcceptBound).toBe((3 / Number(Field.ORDER)) ** 2);
+  });
+
+  it("should throw on empty files and invalid repetition counts", () => {
+    expect(() => new Alice("")).toThrow("File cannot be empty.");
+    expect(() => new Bob("")).toThrow("File cannot be empty.");
+    expect(() => runFingerprintingProtocol("a", "a", 0)).toThrow(
+      "Number of repetitions must be a positive integer.",
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { Field } from "o1js";
+import { getReedSolomon } from "../../lib/message-extensions/reed-solomon.ts";
+import { getUnivariateLagrange } from "../../lib/message-extensions/univariate-lagrange.ts";
+import { getFastUnivariateLagrange } from "../../lib/message-extensions/fast-univariate-lagrange.ts";
+import { getMultilinearLagrange } from "../../lib/message-extensions/multilinear-lagrange.ts";
+import { getMemoizedMultilinearLagrange } from "../../lib/message-extensions/fast-multilinear-lagrange.ts";
+import { runFingerprintingProtocol } from "../../lib/message-extensions/fingerprinting.ts";
+import {
+  BYTES_PER_FIELD_ELEMENT,
+  messageToFields,
+  packBytes,
+  unpackBytes,
+} from "../../lib/util.ts";
+
+const r = Field(123456789);
+const point = [Field(3), Field(5), Field(7)];
+
+describe("Message encoding", () => {
+  it("should give the same extensions for every representation of an ASCII message", () => {
+    const ascii = "sumcheck";
+    const bytes = new TextEncoder().encode(ascii);
+    const bigints = Array.from(bytes, (byte) => BigInt(byte));
+    const fields = Array.from(bytes, (byte) => Field(byte));
+
+    for (const message of [bytes, bigints, fields]) {
+      expect(getReedSolomon(message, r)).toEqual(getReedSolomon(ascii, r));
+      expect(getUnivariateLagrange(message, r)).toEqual(
+        getUnivariateLagrange(ascii, r),
+      );
+      expect(getFastUnivariateLagrange(message, r)).toEqual(
+        getFastUnivariateLagrange(ascii, r),
+      );
+      expect(getMultilinearLagrange(message, point)).toEqual(
+        getMultilinearLagrange(ascii, point),
+      );
+      expect(getMemoizedMultilinearLagrange(message, point)).toEqual(
+        getMemoizedMultilinearLagrange(ascii, point),
+      );
+    }
+  });
+
+  it("should encode strings as UTF-8", () => {
+    // "é" is 0xc3 0xa9 and "€" is 0xe2 0x82 0xac
+    expect(messageToFields("é€")).toEqual(
+      [0xc3, 0xa9, 0xe2, 0x82, 0xac].map((byte) => Field(byte)),
+    );
+    expect(getUnivariateLagrange("é€", Field(4))).toEqual(Field(0xac));
+  });
+
+  it("should pack 31 bytes into each field element and recover them", () => {
+    const text = "Packing a longer message into field elements, π ≈ 3.14159";
+    const bytes = new TextEncoder().encode(text);
+    const packed = messageToFields(text, { packed: true });
+    expect(packed.length).toBe(
+      Math.ceil(bytes.length / BYTES_PER_FIELD_ELEMENT),
+    );
+    expect(packed).toEqual(packBytes(bytes));
+    expect(new TextDecoder().decode(unpackBytes(packed, bytes.length))).toBe(
+      text,
+    );
+
+    // the first byte is the most significant
+    expect(packBytes(new Uint8Array([1, 2]))).toEqual([Field(258)]);
+    // leading zero bytes are recovered from the length
+    expect(unpackBytes([Field(258)], 4)).toEqual(new Uint8Array([0, 0, 1, 2]));
+  });
+
+  it("should extend the packed field elements", () => {
+    const message = "x".repeat(2 * BYTES_PER_FIELD_ELEMENT + 1);
+    const packed = messageToFields(message, { packed: true });
+    expect(packed.length).toBe(3);
+    expect(getReedSolomon(message, r, { packed: true })).toEqual(
+      getReedSolomon(packed, r),
+    );
+    expect(
+      getMemoizedMultilinearLagrange(message, [Field(1), Field(0)], {
+        packed: true,
+      }),
+    ).toEqual(packed[2]);
+  });
+
+  it("should reject invalid inputs", () => {
+    expect(() => messageToFields([1n, Field.ORDER])).toThrow(
+      `Message entry 1 is ${Field.ORDER}, which is not a field element.`,
+    );
+    expect(() => messageToFields([Field(1)], { packed: true })).toThrow(
+      "Packing only applies to byte messages, strings and Uint8Array, not to field elements.",
+    );
+    expect(() => unpackBytes([Field(1)], 32)).toThrow(
+      "1 packed field elements cannot hold 32 bytes.",
+    );
+    expect(() => unpackBytes([Field(256)], 1)).toThrow(
+      "Packed field element 0 does not fit in 1 bytes.",
+    );
+    expect(() => getReedSolomon(new Uint8Array(), r)).toThrow(
+      "Message cannot be empty.",
+    );
+  });
+
+  it("should fingerprint byte files", () => {
+    const file = new TextEncoder().encode("fingerprint");
+    expect(runFingerprintingProtocol(file, "fingerprint").accepted).toBe(true);
+    expect(runFingerprintingProtocol(file, "fingerprinT").accepted).toBe(false);
+  });
+});
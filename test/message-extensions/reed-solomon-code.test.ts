@@ -0,0 +1,93 @@
+import { Field } from "o1js";
+import {
+  decodeReedSolomon,
+  encodeReedSolomon,
+  ReedSolomonCodeword,
+} from "../../lib/message-extensions/reed-solomon-code.ts";
+import { getReedSolomon } from "../../lib/message-extensions/reed-solomon.ts";
+
+const message = [72, 101, 108, 108, 111].map((c) => Field(c));
+
+/**
+ * Adds a nonzero error to the symbols of a codeword at the given positions
+ */
+function corrupt(
+  codeword: ReedSolomonCodeword,
+  positions: number[],
+): ReedSolomonCodeword {
+  const symbols = [...codeword.symbols];
+  positions.forEach((i) => {
+    symbols[i] = symbols[i].add(i + 1);
+  });
+  return { ...codeword, symbols };
+}
+
+describe("Reed-Solomon encoding", () => {
+  it("should encode a message over the roots of unity", () => {
+    const codeword = encodeReedSolomon(message, 1 / 2);
+    // k = 5 at rate 1/2 needs n >= 10, rounded up to 16
+    expect(codeword.k).toBe(5);
+    expect(codeword.symbols.length).toBe(16);
+    // the message symbols are the coefficients of the polynomial, as in getReedSolomon
+    codeword.domain.forEach((a, i) => {
+      expect(codeword.symbols[i]).toEqual(getReedSolomon("Hello", a));
+    });
+  });
+
+  it("should reject invalid parameters", () => {
+    expect(() => encodeReedSolomon([], 1 / 2)).toThrow(
+      "Message cannot be empty.",
+    );
+    expect(() => encodeReedSolomon(message, 0)).toThrow(
+      "Rate must be between 0 and 1, received 0.",
+    );
+  });
+});
+
+describe("Berlekamp-Welch decoding", () => {
+  // k = 5, n = 16 corrects up to floor(11 / 2) = 5 errors
+  const codeword = encodeReedSolomon(message, 1 / 2);
+
+  it("should decode a codeword without errors", () => {
+    expect(decodeReedSolomon(codeword)).toEqual({
+      message,
+      errorPositions: [],
+    });
+  });
+
+  it("should correct up to (n-k)/2 errors", () => {
+    for (const positions of [[3], [0, 7, 15], [1, 2, 3, 4, 5]]) {
+      expect(decodeReedSolomon(corrupt(codeword, positions))).toEqual({
+        message,
+        errorPositions: positions,
+      });
+    }
+  });
+
+  it("should report more than (n-k)/2 errors", () => {
+    expect(() =>
+      decodeReedSolomon(corrupt(codeword, [0, 2, 4, 6, 8, 10])),
+    ).toThrow(
+      "Too many errors to decode, a code with n = 16 and k = 5 can correct at most 5 errors.",
+    );
+  });
+
+  it("should decode exactly at the boundary when n - k is even", () => {
+    // k = 4, n = 8 corrects exactly 2 errors
+    const short = encodeReedSolomon(message.slice(0, 4), 1 / 2);
+    expect(decodeReedSolomon(corrupt(short, [1, 6])).message).toEqual(
+      message.slice(0, 4),
+    );
+    expect(() => decodeReedSolomon(corrupt(short, [1, 4, 6]))).toThrow(
+      "Too many errors to decode, a code with n = 8 and k = 4 can correct at most 2 errors.",
+    );
+  });
+
+  it("should not correct errors in a code of rate 1", () => {
+    const full = encodeReedSolomon(message.slice(0, 4), 1);
+    expect(decodeReedSolomon(full).message).toEqual(message.slice(0, 4));
+    expect(decodeReedSolomon(corrupt(full, [2])).message).not.toEqual(
+      message.slice(0, 4),
+    );
+  });
+});
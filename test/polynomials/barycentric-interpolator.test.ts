@@ -0,0 +1,82 @@
+import { jest } from "@jest/globals";
+import { Field } from "o1js";
+import {
+  BarycentricInterpolator,
+  batchInvert,
+} from "../../lib/polynomials/barycentric-interpolator.ts";
+import { UnivariatePolynomial } from "../../lib/polynomials/univariate-polynomial.ts";
+import { getUnivariateLDE } from "../../lib/sum-check/univariate-lagrange.ts";
+import { getUnivariateLagrange } from "../../lib/message-extensions/univariate-lagrange.ts";
+import { getFastUnivariateLagrange } from "../../lib/message-extensions/fast-univariate-lagrange.ts";
+
+const nodes = [Field(10), Field(-3), Field(42), Field(7), Field(1000)];
+const values = [Field(5), Field(0), Field(-8), Field(13), Field(2)];
+
+describe("Barycentric interpolation", () => {
+  it("should agree with the interpolating polynomial over arbitrary nodes", () => {
+    const interpolator = new BarycentricInterpolator(nodes);
+    const p = UnivariatePolynomial.interpolate(nodes, values);
+    const points = [Field(0), Field(1), Field(2), Field(123456789)];
+    expect(interpolator.evaluateMany(values, points)).toEqual(
+      p.evaluateMany(points),
+    );
+  });
+
+  it("should return the value at an evaluation point equal to a node", () => {
+    const interpolator = new BarycentricInterpolator(nodes);
+    nodes.forEach((node, j) =>
+      expect(interpolator.evaluate(values, node)).toEqual(values[j]),
+    );
+    // 1 and 4 are less than the number of nodes but are not nodes themselves
+    const p = UnivariatePolynomial.interpolate(nodes, values);
+    expect(interpolator.evaluate(values, Field(1))).toEqual(
+      p.evaluate(Field(1)),
+    );
+    expect(interpolator.evaluate(values, Field(4))).not.toEqual(values[4]);
+  });
+
+  it("should agree with getUnivariateLDE over consecutive nodes", () => {
+    const interpolator = BarycentricInterpolator.consecutive(values.length);
+    for (const r of [Field(2), Field(9), Field(-1)]) {
+      expect(interpolator.evaluate(values, r)).toEqual(
+        getUnivariateLDE(values, r),
+      );
+    }
+  });
+
+  it("should build the interpolator for getUnivariateLDE once per number of nodes", () => {
+    const consecutive = jest.spyOn(BarycentricInterpolator, "consecutive");
+    const moreValues = [...values, Field(1), Field(2), Field(3)];
+    for (const r of [Field(2), Field(9), Field(-1)]) {
+      getUnivariateLDE(moreValues, r);
+      // the message extensions share the same interpolators
+      getUnivariateLagrange(moreValues, r);
+      getFastUnivariateLagrange(moreValues, r);
+    }
+    expect(consecutive).toHaveBeenCalledTimes(1);
+    consecutive.mockRestore();
+  });
+
+  it("should invert a batch of field elements", () => {
+    const elements = [Field(3), Field(-1), Field(12345), Field(7)];
+    expect(batchInvert(elements)).toEqual(elements.map((e) => e.inv()));
+    expect(batchInvert([])).toEqual([]);
+    expect(() => batchInvert([Field(1), Field(0)])).toThrow(
+      "Cannot invert zero, entry 1 is zero.",
+    );
+  });
+
+  it("should reject invalid nodes and values", () => {
+    expect(() => new BarycentricInterpolator([])).toThrow(
+      "Interpolation nodes cannot be empty.",
+    );
+    expect(
+      () => new BarycentricInterpolator([Field(1), Field(2), Field(1)]),
+    ).toThrow(
+      "Interpolation nodes must be distinct, nodes 0 and 2 are both 1.",
+    );
+    expect(() =>
+      new BarycentricInterpolator(nodes).evaluate([Field(1)], Field(0)),
+    ).toThrow("Expected 5 values, one per interpolation node, but received 1.");
+  });
+});
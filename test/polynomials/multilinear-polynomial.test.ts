@@ -0,0 +1,74 @@
+import { Field } from "o1js";
+import { MultilinearPolynomial } from "../../lib/polynomials/multilinear-polynomial.ts";
+import { memoizedLagrangeBasis } from "../../lib/message-extensions/fast-multilinear-lagrange.ts";
+import { getMultilinearLDE } from "../../lib/sum-check/multilinear-lagrange.ts";
+
+const values = [2, 3, 5, 7, 11].map((e) => Field(e));
+const f = new MultilinearPolynomial(values);
+const r = [Field(4), Field(9), Field(13)];
+
+describe("Multilinear polynomials", () => {
+  it("should pad the evaluation table and agree with the multilinear extension", () => {
+    expect(f.v).toBe(3);
+    expect(f.getEvaluations()).toEqual([
+      ...values,
+      Field(0),
+      Field(0),
+      Field(0),
+    ]);
+    expect(f.evaluate(r)).toEqual(getMultilinearLDE(values, r));
+    expect(() => f.evaluate([Field(1)])).toThrow(
+      "Incorrect input vector length, expected 3 variables but received 1",
+    );
+  });
+
+  it("should fix the first variables by folding the table", () => {
+    const g = f.fixFirstVariable(r[0]);
+    expect(g.v).toBe(2);
+    expect(g.evaluate(r.slice(1))).toEqual(f.evaluate(r));
+    expect(f.fixVariables(r.slice(0, 2)).evaluate([r[2]])).toEqual(
+      f.evaluate(r),
+    );
+    // fixing x_0 to a boolean value selects half of the table
+    expect(f.fixFirstVariable(Field(1)).getEvaluations()).toEqual([
+      Field(11),
+      Field(0),
+      Field(0),
+      Field(0),
+    ]);
+    expect(() => f.fixVariables([...r, Field(1)])).toThrow(
+      "Cannot fix 4 variables of a 3-variate polynomial.",
+    );
+  });
+
+  it("should add, scale and sum polynomials", () => {
+    const g = MultilinearPolynomial.eq(r);
+    expect(f.add(g).evaluate(r)).toEqual(f.evaluate(r).add(g.evaluate(r)));
+    expect(f.scale(3).equals(f.add(f).add(f))).toBe(true);
+    expect(f.sumOverHypercube()).toEqual(Field(28));
+    expect(() => f.add(new MultilinearPolynomial([Field(1)], 1))).toThrow(
+      "Cannot combine a 3-variate polynomial with a 1-variate polynomial.",
+    );
+  });
+
+  it("should compute the pointwise product table", () => {
+    const g = new MultilinearPolynomial(
+      [1, 2, 3, 4, 5, 6, 7, 8].map((e) => Field(e)),
+    );
+    const product = f.pointwiseProduct(g, g);
+    expect(product).toEqual(
+      [2, 12, 45, 112, 275, 0, 0, 0].map((e) => Field(e)),
+    );
+  });
+
+  it("should generate the eq table", () => {
+    const eq = MultilinearPolynomial.eq(r);
+    expect(eq.getEvaluations()).toEqual(memoizedLagrangeBasis(r));
+    // eq(x, r) sums to 1 over the hypercube and f~(r) = Σ f(w) · eq(w, r)
+    expect(eq.sumOverHypercube()).toEqual(Field(1));
+    expect(
+      f.pointwiseProduct(eq).reduce((sum, e) => sum.add(e), Field(0)),
+    ).toEqual(f.evaluate(r));
+    expect(MultilinearPolynomial.eq([]).getEvaluations()).toEqual([Field(1)]);
+  });
+});
@@ -0,0 +1,120 @@
+import { Field } from "o1js";
+import { MultivariatePolynomial } from "../../lib/polynomials/multivariate-polynomial.ts";
+import { Prover } from "../../lib/sum-check/sum-check-prover.ts";
+import { Verifier as IterativeVerifier } from "../../lib/sum-check/sum-check-iterative-verifier.ts";
+import { Verifier as RecursiveVerifier } from "../../lib/sum-check/sum-check-recursive-verifier.ts";
+
+// g(x_0, x_1, x_2) = 2 x_0^3 x_1 + x_1^2 x_2 + 5 x_0 x_2^2 + 7
+const g = new MultivariatePolynomial(3, [
+  { coefficient: Field(2), exponents: [3, 1, 0] },
+  { coefficient: Field(1), exponents: [0, 2, 1] },
+  { coefficient: Field(5), exponents: [1, 0, 2] },
+  { coefficient: Field(7), exponents: [0, 0, 0] },
+]);
+const x = [Field(3), Field(5), Field(11)];
+
+describe("Sparse multivariate polynomials", () => {
+  it("should evaluate a polynomial", () => {
+    expect(g.evaluate(x)).toEqual(
+      Field(2 * 27 * 5 + 25 * 11 + 5 * 3 * 121 + 7),
+    );
+    expect(g.degrees()).toEqual([3, 2, 2]);
+    expect(() => g.evaluate([Field(1)])).toThrow(
+      "Incorrect input vector length, expected 3 variables but received 1",
+    );
+  });
+
+  it("should add, multiply and scale polynomials", () => {
+    const h = MultivariatePolynomial.variable(3, 0).add(
+      MultivariatePolynomial.constant(3, 4),
+    );
+    expect(g.add(h).evaluate(x)).toEqual(g.evaluate(x).add(3 + 4));
+    expect(g.mul(h).evaluate(x)).toEqual(g.evaluate(x).mul(3 + 4));
+    expect(g.mul(h).degree(0)).toBe(4);
+    expect(g.scale(-1).add(g).getTerms()).toEqual([]);
+    expect(g.scale(3).equals(g.add(g).add(g))).toBe(true);
+  });
+
+  it("should combine like terms", () => {
+    const h = new MultivariatePolynomial(2, [
+      { coefficient: Field(2), exponents: [1, 1] },
+      { coefficient: Field(3), exponents: [1, 1] },
+    ]);
+    expect(h.getTerms()).toEqual([
+      { coefficient: Field(5), exponents: [1, 1] },
+    ]);
+  });
+
+  it("should fix a subset of the variables", () => {
+    const fixed = g.fixVariables(new Map([[1, x[1]]]));
+    expect(fixed.degree(1)).toBe(0);
+    expect(fixed.evaluate([x[0], Field(0), x[2]])).toEqual(g.evaluate(x));
+  });
+
+  it("should sum over the boolean hypercube for a chosen set of variables", () => {
+    let expected = Field(0);
+    for (const b1 of [0, 1])
+      for (const b2 of [0, 1])
+        expected = expected.add(g.evaluate([x[0], Field(b1), Field(b2)]));
+    const summed = g.sumOverHypercube([1, 2]);
+    expect(summed.degrees()).toEqual([3, 0, 0]);
+    expect(summed.evaluate([x[0], Field(0), Field(0)])).toEqual(expected);
+  });
+
+  it("should reject variables that do not exist", () => {
+    expect(() => g.degree(3)).toThrow(
+      "Variable x_3 does not exist in a 3-variate polynomial.",
+    );
+    expect(() => g.add(MultivariatePolynomial.constant(2, 1))).toThrow(
+      "Cannot combine a 3-variate polynomial with a 2-variate polynomial.",
+    );
+  });
+});
+
+describe("Sum check for sparse multivariate polynomials", () => {
+  it("should prove the sum of g with the iterative verifier", () => {
+    const prover = new Prover(g, 3);
+    const sum = prover.getProposedSum();
+    expect(sum).toEqual(Field(2 * 2 + 2 * 1 + 5 * 2 + 7 * 8));
+
+    const verifier = new IterativeVerifier(sum, 3, g.degrees());
+    let r_j = undefined;
+    for (let j = 1; j <= 3; j++) {
+      const g_j = prover.getRoundJPolynomial(r_j);
+      expect(g_j.length).toBe(g.degree(j - 1) + 1);
+      r_j = verifier.verifyRoundJPolynomial(g_j);
+    }
+    verifier.verifyOracleQueryOfG(g);
+  });
+
+  it("should prove the sum of g with the recursive verifier", () => {
+    const prover = new Prover(g, 3);
+    const verifier = new RecursiveVerifier(prover.getProposedSum(), g, 3);
+    let r_j = undefined;
+    for (let j = 1; j <= 3; j++) {
+      r_j = verifier.roundJ(prover.getRoundJPolynomial(r_j));
+    }
+  });
+
+  it("should reject round polynomials above the degree bound", () => {
+    const prover = new Prover(g, 3);
+    const verifier = new IterativeVerifier(prover.getProposedSum(), 3);
+    expect(() =>
+      verifier.verifyRoundJPolynomial(prover.getRoundJPolynomial()),
+    ).toThrow(
+      "Polynomial sent in round 1 has length 4. Expected length to be <= 2 for multilinear polynomials.",
+    );
+  });
+
+  it("should reject an incorrect sum", () => {
+    const prover = new Prover(g, 3);
+    const verifier = new IterativeVerifier(
+      prover.getProposedSum().add(1),
+      3,
+      g.degrees(),
+    );
+    expect(() =>
+      verifier.verifyRoundJPolynomial(prover.getRoundJPolynomial()),
+    ).toThrow("Polynomial g_1 is incorrect");
+  });
+});
@@ -0,0 +1,78 @@
+import { Field } from "o1js";
+import { SparseMultilinearPolynomial } from "../../lib/polynomials/sparse-multilinear-polynomial.ts";
+import { getMultilinearLDE } from "../../lib/sum-check/multilinear-lagrange.ts";
+
+const r = [Field(3), Field(5), Field(7), Field(11)];
+
+describe("Sparse multilinear extensions", () => {
+  it("should agree with the dense multilinear extension", () => {
+    // adjacency matrix of the path 0 - 1 - 2 - 3, flattened row by row
+    const adjacency = [
+      [0, 1, 0, 0],
+      [1, 0, 1, 0],
+      [0, 1, 0, 1],
+      [0, 0, 1, 0],
+    ]
+      .flat()
+      .map((e) => Field(e));
+    const f = SparseMultilinearPolynomial.fromDense(adjacency);
+    expect(f.d).toBe(4);
+    expect(f.getEntries().map(({ index }) => index)).toEqual([
+      1, 4, 6, 9, 11, 14,
+    ]);
+    expect(f.evaluate(r)).toEqual(getMultilinearLDE(adjacency, r));
+  });
+
+  it("should pad tables whose length is not a power of 2", () => {
+    const values = [Field(0), Field(9), Field(0), Field(0), Field(4)];
+    const f = SparseMultilinearPolynomial.fromDense(values);
+    expect(f.d).toBe(3);
+    expect(f.toDense()).toEqual([...values, Field(0), Field(0), Field(0)]);
+    expect(f.evaluate(r.slice(0, 3))).toEqual(
+      getMultilinearLDE(values, r.slice(0, 3)),
+    );
+  });
+
+  it("should round trip between the sparse and dense forms", () => {
+    const f = new SparseMultilinearPolynomial(3, [
+      { index: 6, value: Field(2) },
+      { index: 0, value: Field(0) },
+      { index: 3, value: Field(-1) },
+    ]);
+    expect(f.getEntries()).toEqual([
+      { index: 3, value: Field(-1) },
+      { index: 6, value: Field(2) },
+    ]);
+    expect(f.get(6)).toEqual(Field(2));
+    expect(f.get(5)).toEqual(Field(0));
+    expect(
+      SparseMultilinearPolynomial.fromDense(f.toDense()).getEntries(),
+    ).toEqual(f.getEntries());
+  });
+
+  it("should evaluate one-hot tables over large hypercubes", () => {
+    // a single entry at index 2^40 + 5, whose dense table would not fit in memory
+    const d = 48;
+    const index = 2 ** 40 + 5;
+    const f = new SparseMultilinearPolynomial(d, [{ index, value: Field(1) }]);
+    const bits = index.toString(2).padStart(d, "0").split("");
+    expect(f.evaluate(bits.map((b) => Field(Number(b))))).toEqual(Field(1));
+    expect(f.evaluate(Array(d).fill(Field(0)))).toEqual(Field(0));
+  });
+
+  it("should reject invalid entries", () => {
+    expect(
+      () => new SparseMultilinearPolynomial(2, [{ index: 4, value: Field(1) }]),
+    ).toThrow("Index 4 is not a vertex of the 2-dimensional hypercube.");
+    expect(
+      () =>
+        new SparseMultilinearPolynomial(2, [
+          { index: 1, value: Field(1) },
+          { index: 1, value: Field(2) },
+        ]),
+    ).toThrow("Index 1 appears more than once.");
+    expect(() => new SparseMultilinearPolynomial(1).evaluate(r)).toThrow(
+      "Incorrect input vector length, expected 1 variables but received 4",
+    );
+  });
+});
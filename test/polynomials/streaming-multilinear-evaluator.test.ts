@@ -0,0 +1,54 @@
+import { Field } from "o1js";
+import { StreamingMultilinearEvaluator } from "../../lib/polynomials/streaming-multilinear-evaluator.ts";
+import { getMultilinearLDE } from "../../lib/sum-check/multilinear-lagrange.ts";
+
+const r = [Field(3), Field(5), Field(7)];
+
+describe("Streaming multilinear extension evaluation", () => {
+  it("should agree with the dense multilinear extension of the frequency vector", () => {
+    const stream = [2, 7, 2, 0, 5, 2, 7];
+    const frequencies = Array.from({ length: 8 }, () => Field(0));
+    const evaluator = new StreamingMultilinearEvaluator(r);
+    stream.forEach((index) => {
+      evaluator.update(index);
+      frequencies[index] = frequencies[index].add(1);
+    });
+    expect(evaluator.getValue()).toEqual(getMultilinearLDE(frequencies, r));
+  });
+
+  it("should support turnstile updates", () => {
+    const evaluator = new StreamingMultilinearEvaluator(r);
+    evaluator.update(4, 10);
+    evaluator.update(1, Field(3));
+    evaluator.update(4, -10);
+    evaluator.update(6, 2n);
+    evaluator.update(6, -2n);
+
+    const expected = new StreamingMultilinearEvaluator(r);
+    expected.update(1, 3);
+    expect(evaluator.getValue()).toEqual(expected.getValue());
+    // deleting every item returns to the empty stream
+    evaluator.update(1, -3);
+    expect(evaluator.getValue()).toEqual(Field(0));
+  });
+
+  it("should fingerprint streams that are permutations of each other", () => {
+    const point = Array.from({ length: 20 }, () => Field.random());
+    const a = new StreamingMultilinearEvaluator(point);
+    const b = new StreamingMultilinearEvaluator(point);
+    const c = new StreamingMultilinearEvaluator(point);
+    const items = [17, 900_000, 3, 17, 524_288];
+    items.forEach((i) => a.update(i));
+    [...items].reverse().forEach((i) => b.update(i));
+    [...items.slice(1), 18].forEach((i) => c.update(i));
+    expect(a.getValue()).toEqual(b.getValue());
+    expect(a.getValue()).not.toEqual(c.getValue());
+  });
+
+  it("should reject indices outside the hypercube", () => {
+    const evaluator = new StreamingMultilinearEvaluator(r);
+    expect(() => evaluator.update(8)).toThrow(
+      "Index 8 is not a vertex of the 3-dimensional hypercube.",
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { Field } from "o1js";
+import {
+  getRootOfUnity,
+  inverseNtt,
+  ntt,
+  UnivariatePolynomial,
+} from "../../lib/polynomials/univariate-polynomial.ts";
+import { getUnivariateLDE } from "../../lib/sum-check/univariate-lagrange.ts";
+
+const toFields = (values: number[]) => values.map((x) => Field(x));
+const randomPolynomial = (length: number) =>
+  new UnivariatePolynomial(Array.from({ length }, () => Field.random()));
+
+// f(x) = 3 + 2x + x^3
+const f = new UnivariatePolynomial(toFields([3, 2, 0, 1]));
+
+describe("Univariate polynomial arithmetic", () => {
+  it("should evaluate a polynomial and drop trailing zeroes", () => {
+    expect(f.evaluate(Field(2))).toEqual(Field(3 + 4 + 8));
+    expect(new UnivariatePolynomial(toFields([1, 0, 0])).degree()).toBe(0);
+    expect(new UnivariatePolynomial([]).degree()).toBe(-1);
+  });
+
+  it("should add, subtract and multiply polynomials", () => {
+    const g = new UnivariatePolynomial(toFields([1, 1]));
+    expect(f.add(g).coefficients).toEqual(toFields([4, 3, 0, 1]));
+    expect(f.sub(f).degree()).toBe(-1);
+    // (3 + 2x + x^3)(1 + x) = 3 + 5x + 2x^2 + x^3 + x^4
+    expect(f.mul(g).coefficients).toEqual(toFields([3, 5, 2, 1, 1]));
+  });
+
+  it("should multiply large polynomials with the NTT", () => {
+    const [a, b] = [randomPolynomial(100), randomPolynomial(70)];
+    const x = Field.random();
+    const product = a.mul(b);
+    expect(product.degree()).toBe(168);
+    expect(product.evaluate(x)).toEqual(a.evaluate(x).mul(b.evaluate(x)));
+  });
+
+  it("should divide with remainder", () => {
+    for (const [n, m] of [
+      [3, 1],
+      [40, 7],
+      [150, 60],
+    ]) {
+      const a = randomPolynomial(n + 1);
+      const b = randomPolynomial(m + 1);
+      const { quotient, remainder } = a.divmod(b);
+      expect(quotient.degree()).toBe(n - m);
+      expect(remainder.degree()).toBeLessThan(m);
+      expect(quotient.mul(b).add(remainder).equals(a)).toBe(true);
+    }
+    expect(() => f.divmod(new UnivariatePolynomial([]))).toThrow(
+      "Cannot divide by the zero polynomial.",
+    );
+  });
+});
+
+describe("Number theoretic transform", () => {
+  it("should compute primitive roots of unity", () => {
+    const omega = getRootOfUnity(8);
+    expect(omega.mul(omega).mul(omega).mul(omega)).toEqual(Field(-1));
+    expect(getRootOfUnity(2)).toEqual(Field(-1));
+    expect(() => getRootOfUnity(6)).toThrow(
+      "Roots of unity of order 6 are not supported, n must be a power of 2 up to 2^32.",
+    );
+  });
+
+  it("should evaluate over the roots of unity", () => {
+    const omega = getRootOfUnity(8);
+    const evaluations = f.evaluateOverDomain(8);
+    let x = Field(1);
+    for (let i = 0; i < 8; i++) {
+      expect(evaluations[i]).toEqual(f.evaluate(x));
+      x = x.mul(omega);
+    }
+  });
+
+  it("should invert the NTT", () => {
+    const coefficients = Array.from({ length: 16 }, () => Field.random());
+    expect(inverseNtt(ntt(coefficients))).toEqual(coefficients);
+    expect(
+      UnivariatePolynomial.interpolateOverDomain(f.evaluateOverDomain(4)),
+    ).toEqual(f);
+  });
+});
+
+describe("Multi-point evaluation and interpolation", () => {
+  it("should evaluate at many points", () => {
+    const g = randomPolynomial(40);
+    const points = Array.from({ length: 33 }, () => Field.random());
+    expect(g.evaluateMany(points)).toEqual(points.map((x) => g.evaluate(x)));
+  });
+
+  it("should interpolate through arbitrary points", () => {
+    const g = randomPolynomial(20);
+    const points = Array.from({ length: 20 }, () => Field.random());
+    expect(
+      UnivariatePolynomial.interpolate(points, g.evaluateMany(points)).equals(
+        g,
+      ),
+    ).toBe(true);
+  });
+
+  it("should agree with Lagrange interpolation over {0, ..., n-1}", () => {
+    const values = toFields([5, 1, 4, 1, 5, 9, 2]);
+    const points = toFields([0, 1, 2, 3, 4, 5, 6]);
+    const r = Field(1000);
+    expect(
+      UnivariatePolynomial.interpolate(points, values).evaluate(r),
+    ).toEqual(getUnivariateLDE(values, r));
+    expect(() =>
+      UnivariatePolynomial.interpolate(toFields([1, 1]), toFields([2, 3])),
+    ).toThrow("Interpolation points must be distinct.");
+  });
+
+  it("should build a polynomial from its roots", () => {
+    const roots = toFields([1, 2, 3]);
+    const g = UnivariatePolynomial.fromRoots(roots);
+    // (x - 1)(x - 2)(x - 3) = x^3 - 6x^2 + 11x - 6
+    expect(g.coefficients).toEqual(toFields([-6, 11, -6, 1]));
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  and,
+  countSatisfyingAssignments,
+  evaluateFormula,
+  getFormulaSize,
+  not,
+  or,
+  parseDimacs,
+  parseFormula,
+  variable,
+} from "../../lib/sat/boolean-formula.ts";
+
+describe("Boolean formulas", () => {
+  it("should evaluate and count satisfying assignments", () => {
+    // (x_0 OR NOT x_1) AND x_2
+    const formula = and(or(variable(0), not(variable(1))), variable(2));
+    expect(evaluateFormula(formula, [true, true, true])).toBe(true);
+    expect(evaluateFormula(formula, [false, true, true])).toBe(false);
+    expect(countSatisfyingAssignments(formula, 3)).toBe(3);
+    expect(getFormulaSize(formula)).toBe(6);
+  });
+
+  it("should parse infix formulas with the usual precedence", () => {
+    expect(parseFormula("x1 | x2 & !x3")).toEqual(
+      or(variable(0), and(variable(1), not(variable(2)))),
+    );
+    expect(parseFormula("(x1 | x2) & ~~x3")).toEqual(
+      and(or(variable(0), variable(1)), not(not(variable(2)))),
+    );
+    expect(parseFormula("x1&x2&x3")).toEqual(
+      and(variable(0), variable(1), variable(2)),
+    );
+  });
+
+  it("should reject malformed infix formulas", () => {
+    expect(() => parseFormula("x1 &")).toThrow(
+      "Unexpected end of input at token 3.",
+    );
+    expect(() => parseFormula("(x1 | x2")).toThrow(
+      'Expected ")" at token 5 but found end of input.',
+    );
+    expect(() => parseFormula("x1 x2")).toThrow(
+      'Unexpected token "x2" at token 2.',
+    );
+    expect(() => parseFormula("x0")).toThrow(
+      'Variables are numbered from x1, found "x0".',
+    );
+  });
+
+  it("should parse DIMACS CNF files", () => {
+    const cnf = parseDimacs(
+      ["c example", "p cnf 3 2", "1 -3 0", "2 3", "-1 0", ""].join("\n"),
+    );
+    expect(cnf.numVariables).toBe(3);
+    expect(cnf.clauses).toEqual([
+      [1, -3],
+      [2, 3, -1],
+    ]);
+    expect(cnf.formula).toEqual(
+      and(
+        or(variable(0), not(variable(2))),
+        or(variable(1), variable(2), not(variable(0))),
+      ),
+    );
+    expect(countSatisfyingAssignments(cnf.formula, 3)).toBe(5);
+  });
+
+  it("should reject malformed DIMACS files", () => {
+    expect(() => parseDimacs("1 2 0")).toThrow(
+      'Line 1 appears before the DIMACS problem line "p cnf <variables> <clauses>".',
+    );
+    expect(() => parseDimacs("p cnf 2 1\n1 3 0")).toThrow(
+      "Literal 3 on line 2 refers to a variable greater than 2.",
+    );
+    expect(() => parseDimacs("p cnf 2 2\n1 2 0")).toThrow(
+      "Expected 2 clauses but found 1 clauses.",
+    );
+    expect(() => parseDimacs("p cnf 2 1\n1 2")).toThrow(
+      "The last clause is not terminated by 0.",
+    );
+    expect(() => parseDimacs("p cnf 2 1\n1 a 0")).toThrow(
+      'Invalid literal "a" on line 2.',
+    );
+    expect(() => parseDimacs("c only a comment")).toThrow(
+      'Missing DIMACS problem line "p cnf <variables> <clauses>".',
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { Field } from "o1js";
+import {
+  countSatisfyingAssignments,
+  parseDimacs,
+  parseFormula,
+} from "../../lib/sat/boolean-formula.ts";
+import {
+  arithmetize,
+  proveSatisfyingAssignmentCount,
+} from "../../lib/sat/sat-sum-check.ts";
+
+describe("#SAT interactive proof", () => {
+  it("should arithmetize a formula so it agrees with the formula on the hypercube", () => {
+    const formula = parseFormula("(x1 | !x2) & (x2 | x3) & !(x1 & x3)");
+    const { g, degrees, size } = arithmetize(formula, 3);
+    expect(degrees).toEqual([2, 2, 2]);
+    expect(size).toBe(12);
+    expect(g([Field(1), Field(0), Field(0)])).toEqual(Field(0));
+    expect(g([Field(1), Field(1), Field(0)])).toEqual(Field(1));
+    expect(g([Field(1), Field(1), Field(1)])).toEqual(Field(0));
+  });
+
+  it("should prove the number of satisfying assignments of a formula", () => {
+    const formula = parseFormula("(x1 | !x2) & (x2 | x3) & !(x1 & x3)");
+    const count = proveSatisfyingAssignmentCount(formula, 3);
+    expect(count).toEqual(Field(countSatisfyingAssignments(formula, 3)));
+    expect(count).toEqual(Field(2));
+  });
+
+  it("should prove the number of satisfying assignments of a DIMACS CNF", () => {
+    const { numVariables, formula } = parseDimacs(
+      [
+        "c 4 variables, 3 clauses",
+        "p cnf 4 3",
+        "1 2 0",
+        "-1 3 0",
+        "-3 4 -2 0",
+      ].join("\n"),
+    );
+    expect(arithmetize(formula, numVariables).degrees).toEqual([2, 2, 2, 1]);
+    expect(proveSatisfyingAssignmentCount(formula, numVariables)).toEqual(
+      Field(countSatisfyingAssignments(formula, numVariables)),
+    );
+  });
+
+  it("should handle variables that do not appear in the formula", () => {
+    const formula = parseFormula("x1 & x3");
+    expect(arithmetize(formula, 3).degrees).toEqual([1, 0, 1]);
+    expect(proveSatisfyingAssignmentCount(formula, 3)).toEqual(Field(2));
+  });
+
+  it("should reject an incorrect count", () => {
+    const formula = parseFormula("(x1 | x2) & !x3");
+    expect(() => proveSatisfyingAssignmentCount(formula, 3, Field(4))).toThrow(
+      "Polynomial g_1 is incorrect.",
+    );
+  });
+
+  it("should reject formulas referring to missing variables", () => {
+    expect(() => arithmetize(parseFormula("x1 & x4"), 3)).toThrow(
+      "Formula refers to x_3 but only has 3 variables.",
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import { Field } from "o1js";
+import {
+  AdaptiveProver,
+  iterativeVerifier,
+  LyingSumProver,
+  measureAcceptanceRate,
+  oracleVerifier,
+  recursiveVerifier,
+  WrongPolynomialProver,
+} from "../../lib/sum-check/adversarial-provers.ts";
+import { SeededChallengeSource } from "../../lib/sum-check/challenge-source.ts";
+import { OracleProver } from "../../lib/sum-check/oracle-sum-check.ts";
+import { MultivariatePolynomial } from "../../lib/polynomials/multivariate-polynomial.ts";
+
+// g(x_0, x_1, x_2) = x_0^2 x_1 + x_1 x_2^2 + 3 x_0 + 1
+const polynomial = new MultivariatePolynomial(3, [
+  { coefficient: Field(1), exponents: [2, 1, 0] },
+  { coefficient: Field(1), exponents: [0, 1, 2] },
+  { coefficient: Field(3), exponents: [1, 0, 0] },
+  { coefficient: Field(1), exponents: [0, 0, 0] },
+]);
+const g = (x: Field[]) => polynomial.evaluate(x);
+const degrees = polynomial.degrees();
+
+// a challenge space of 16 elements, so cheating succeeds often enough to measure
+const size = 16n;
+const trials = 300;
+
+describe("Adversarial provers", () => {
+  it("should always accept the honest prover", () => {
+    const result = measureAcceptanceRate(
+      oracleVerifier(g, degrees),
+      3,
+      () => new OracleProver(g, degrees),
+      50,
+      new SeededChallengeSource(1, size),
+    );
+    expect(result.rate).toBe(1);
+    expect(result.soundnessError).toBe(5 / 16);
+  });
+
+  it("should always reject a prover that lies about the sum", () => {
+    const result = measureAcceptanceRate(
+      oracleVerifier(g, degrees),
+      3,
+      () => new LyingSumProver(g, degrees),
+      50,
+      new SeededChallengeSource(2, size),
+    );
+    expect(result.accepted).toBe(0);
+  });
+
+  it("should accept an adaptive prover no more often than the soundness error", () => {
+    const result = measureAcceptanceRate(
+      oracleVerifier(g, degrees),
+      3,
+      () => new AdaptiveProver(g, degrees, Field(7)),
+      trials,
+      new SeededChallengeSource(3, size),
+    );
+    // the adaptive prover succeeds with probability 1 - (14/16)(15/16)(14/16) ≈ 0.28, below 5/16
+    expect(result.rate).toBeGreaterThan(0.15);
+    expect(result.rate).toBeLessThanOrEqual(result.soundnessError + 0.05);
+  });
+
+  it("should catch a prover that uses a different polynomial at the oracle query", () => {
+    const result = measureAcceptanceRate(
+      oracleVerifier(g, degrees),
+      3,
+      () => new WrongPolynomialProver(g, degrees),
+      trials,
+      new SeededChallengeSource(4, size),
+    );
+    // accepted only if some r_i = 1, with probability 1 - (15/16)^3 ≈ 0.18
+    expect(result.rate).toBeGreaterThan(0.08);
+    expect(result.rate).toBeLessThanOrEqual(result.soundnessError);
+  });
+
+  it("should never accept a cheating prover over the whole field", () => {
+    const result = measureAcceptanceRate(
+      oracleVerifier(g, degrees),
+      3,
+      () => new AdaptiveProver(g, degrees),
+      20,
+      new SeededChallengeSource(5),
+    );
+    expect(result.accepted).toBe(0);
+  });
+});
+
+describe.each([
+  ["iterative", iterativeVerifier(polynomial, 3)],
+  ["recursive", recursiveVerifier(polynomial, 3)],
+])("Adversarial provers against the %s Verifier", (_, createVerifier) => {
+  it("should always accept the honest prover", () => {
+    const result = measureAcceptanceRate(
+      createVerifier,
+      3,
+      () => new OracleProver(g, degrees),
+      20,
+      new SeededChallengeSource(6, size),
+    );
+    expect(result.rate).toBe(1);
+    expect(result.soundnessError).toBe(5 / 16);
+  });
+
+  it("should always reject a prover that lies about the sum", () => {
+    const result = measureAcceptanceRate(
+      createVerifier,
+      3,
+      () => new LyingSumProver(g, degrees),
+      50,
+      new SeededChallengeSource(7, size),
+    );
+    expect(result.accepted).toBe(0);
+  });
+
+  it("should accept an adaptive prover no more often than the soundness error", () => {
+    const result = measureAcceptanceRate(
+      createVerifier,
+      3,
+      () => new AdaptiveProver(g, degrees, Field(7)),
+      trials,
+      new SeededChallengeSource(8, size),
+    );
+    expect(result.rate).toBeGreaterThan(0.15);
+    expect(result.rate).toBeLessThanOrEqual(result.soundnessError + 0.05);
+  });
+
+  it("should catch a prover that uses a different polynomial at the oracle query", () => {
+    const result = measureAcceptanceRate(
+      createVerifier,
+      3,
+      () => new WrongPolynomialProver(g, degrees),
+      trials,
+      new SeededChallengeSource(9, size),
+    );
+    expect(result.rate).toBeGreaterThan(0.08);
+    expect(result.rate).toBeLessThanOrEqual(result.soundnessError);
+  });
+});
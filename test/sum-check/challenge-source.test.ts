@@ -0,0 +1,193 @@
+import { Field } from "o1js";
+import {
+  getSoundnessError,
+  RandomChallengeSource,
+  ScriptedChallengeSource,
+  SeededChallengeSource,
+  TranscriptChallengeSource,
+} from "../../lib/sum-check/challenge-source.ts";
+import {
+  getSumCheckTranscript,
+  proveSumCheck,
+  verifySumCheckProof,
+} from "../../lib/sum-check/fiat-shamir.ts";
+import { Prover } from "../../lib/sum-check/sum-check-prover.ts";
+import { Verifier as IterativeVerifier } from "../../lib/sum-check/sum-check-iterative-verifier.ts";
+import { Verifier as RecursiveVerifier } from "../../lib/sum-check/sum-check-recursive-verifier.ts";
+import { OracleVerifier } from "../../lib/sum-check/oracle-sum-check.ts";
+import {
+  MatMultVerifier,
+  verifyMatrixProduct,
+} from "../../lib/matrix/matmult-protocol.ts";
+import { Matrix } from "../../lib/matrix/matrix.ts";
+import { LayeredCircuitBuilder } from "../../lib/circuits/layered-circuit.ts";
+import { GKRVerifier, proveCircuitEvaluation } from "../../lib/gkr/gkr.ts";
+
+const g = Array.from({ length: 8 }, (_, i) => Field(i + 1));
+
+describe("Challenge sources", () => {
+  it("should sample uniformly from the whole field", () => {
+    const source = new RandomChallengeSource();
+    expect(source.size).toBe(Field.ORDER);
+    const samples = Array.from({ length: 20 }, () => source.next().toBigInt());
+    expect(new Set(samples).size).toBe(20);
+    // the old sampler never exceeded 10^11, a uniform sample does with overwhelming probability
+    expect(samples.some((s) => s > Field.ORDER / 2n)).toBe(true);
+  });
+
+  it("should sample every element of a small challenge space", () => {
+    const source = new RandomChallengeSource(5n);
+    const seen = new Set<bigint>();
+    for (let i = 0; i < 200; i++) seen.add(source.next().toBigInt());
+    expect([...seen].sort()).toEqual([0n, 1n, 2n, 3n, 4n]);
+  });
+
+  it("should reproduce challenges from a seed", () => {
+    const draw = (seed: number) => {
+      const source = new SeededChallengeSource(seed);
+      return Array.from({ length: 5 }, () => source.next());
+    };
+    expect(draw(42)).toEqual(draw(42));
+    expect(draw(42)).not.toEqual(draw(43));
+
+    const small = new SeededChallengeSource(7, 3n);
+    for (let i = 0; i < 50; i++)
+      expect(small.next().toBigInt()).toBeLessThan(3n);
+  });
+
+  it("should replay scripted challenges", () => {
+    const source = new ScriptedChallengeSource([5, 6n, Field(7)]);
+    expect([source.next(), source.next(), source.next()]).toEqual([
+      Field(5),
+      Field(6),
+      Field(7),
+    ]);
+    expect(() => source.next()).toThrow(
+      "Scripted challenge source ran out of challenges after 3 challenges.",
+    );
+  });
+
+  it("should squeeze the challenges of a non-interactive proof from its transcript", () => {
+    const { claim, proof } = proveSumCheck(g, 3);
+    const transcript = getSumCheckTranscript(3, 1, proof.commitment, claim);
+    const verifier = new IterativeVerifier(
+      claim,
+      3,
+      undefined,
+      new TranscriptChallengeSource(transcript),
+    );
+    const r = proof.roundPolynomials.map((g_j) => {
+      transcript.absorb(Field(g_j.length), ...g_j);
+      return verifier.verifyRoundJPolynomial(g_j);
+    });
+    verifier.verifyOracleQueryOfG(g);
+    expect(r).toEqual(verifySumCheckProof(proof, claim, g).r);
+  });
+
+  it("should reject invalid challenge spaces", () => {
+    expect(() => new RandomChallengeSource(1n)).toThrow(
+      "Challenge space size must be between 2 and the field order, received 1.",
+    );
+    expect(() => new SeededChallengeSource(1, Field.ORDER + 1n)).toThrow(
+      `Challenge space size must be between 2 and the field order, received ${Field.ORDER + 1n}.`,
+    );
+  });
+});
+
+describe("Verifiers with challenge sources", () => {
+  it("should send the challenges of the configured source", () => {
+    const prover = new Prover(g, 3);
+    const verifier = new IterativeVerifier(
+      prover.getProposedSum(),
+      3,
+      undefined,
+      new ScriptedChallengeSource([11, 12, 13]),
+    );
+    const r: Field[] = [];
+    let r_j = undefined;
+    for (let j = 1; j <= 3; j++) {
+      r_j = verifier.verifyRoundJPolynomial(prover.getRoundJPolynomial(r_j));
+      r.push(r_j);
+    }
+    expect(r).toEqual([Field(11), Field(12), Field(13)]);
+    verifier.verifyOracleQueryOfG(g);
+
+    const recursive = new RecursiveVerifier(
+      prover.getProposedSum(),
+      g,
+      3,
+      new ScriptedChallengeSource([21]),
+    );
+    expect(recursive.getRandomFieldElement()).toEqual(Field(21));
+  });
+
+  it("should report the soundness error of sum check", () => {
+    expect(getSoundnessError([1, 2, 3], 100n)).toBe(0.06);
+    expect(getSoundnessError([50, 60], 100n)).toBe(1);
+
+    const small = new SeededChallengeSource(1, 101n);
+    expect(
+      new IterativeVerifier(Field(0), 3, undefined, small).getSoundnessError(),
+    ).toBe(3 / 101);
+    expect(
+      new IterativeVerifier(Field(0), 3, [2, 0, 4], small).getSoundnessError(),
+    ).toBe(7 / 101);
+    expect(
+      new RecursiveVerifier(Field(0), g, 3, small).getSoundnessError(),
+    ).toBe(3 / 101);
+    expect(
+      new OracleVerifier(Field(0), [2, 2], small).getSoundnessError(),
+    ).toBe(4 / 101);
+    expect(new OracleVerifier(Field(0), [2, 2]).getSoundnessError()).toBe(
+      4 / Number(Field.ORDER),
+    );
+  });
+
+  it("should enforce the degree bound behind the soundness error of the recursive verifier", () => {
+    const prover = new Prover(g, 3);
+    const verifier = new RecursiveVerifier(prover.getProposedSum(), g, 3);
+    // a round polynomial of degree 2 for a multilinear g, with g_1(0) + g_1(1) equal to the proposed sum
+    const [a, b] = prover.getRoundJPolynomial();
+    expect(() => verifier.roundJ([a, b, Field(5)])).toThrow(
+      "Polynomial sent in round 1 has length 3. Expected length to be between 1 and 2 since deg_1(g) <= 1.",
+    );
+  });
+
+  it("should report the soundness error of MatMult and GKR", () => {
+    const A = Matrix.from([
+      [1, 2, 3],
+      [4, 5, 6],
+      [7, 8, 9],
+    ]);
+    const source = new SeededChallengeSource(3, 1000n);
+    // l = 2: 2l for the random point and 2l for the sum check
+    expect(
+      new MatMultVerifier(A, A, A.mul(A), source).getSoundnessError(),
+    ).toBe(8 / 1000);
+    verifyMatrixProduct(A, A, A.mul(A), new SeededChallengeSource(3));
+
+    const builder = new LayeredCircuitBuilder(2, 4);
+    builder.mul(0, 0, 1);
+    builder.add(1, 0, 1);
+    builder.mul(1, 2, 3);
+    const circuit = builder.build();
+    const inputs = [3, 2, 5, 4].map((x) => Field(x));
+    // k_0 = 1 since every layer has at least one variable, k_1 = 1 and k_2 = 2
+    expect(
+      new GKRVerifier(
+        circuit,
+        inputs,
+        [Field(100)],
+        source,
+      ).getSoundnessError(),
+    ).toBe((1 + 5 * 1 + 5 * 2) / 1000);
+    expect(
+      proveCircuitEvaluation(
+        circuit,
+        inputs,
+        undefined,
+        new SeededChallengeSource(4),
+      ),
+    ).toEqual([Field(100)]);
+  });
+});
@@ -0,0 +1,193 @@
+import { Field } from "o1js";
+import {
+  commitToPolynomial,
+  getSumCheckTranscript,
+  proveSumCheck,
+  verifySumCheckProof,
+} from "../../lib/sum-check/fiat-shamir.ts";
+import { Transcript } from "../../lib/sum-check/transcript.ts";
+import { getMultilinearLDE } from "../../lib/sum-check/multilinear-lagrange.ts";
+
+const v = 3;
+const g = [3, 1, 4, 1, 5, 9, 2, 6].map(Field);
+const oracle = (x: Field[]) => getMultilinearLDE(g, x);
+
+describe("Poseidon transcript", () => {
+  it("should derive the same challenges from the same messages", () => {
+    const t1 = new Transcript("test");
+    const t2 = new Transcript("test");
+    t1.absorb(Field(1), Field(2));
+    t2.absorb(Field(1), Field(2));
+    expect(t1.squeeze()).toEqual(t2.squeeze());
+    expect(t1.squeeze()).toEqual(t2.squeeze());
+  });
+
+  it("should derive different challenges for different domain separators or messages", () => {
+    const base = new Transcript("test");
+    const otherLabel = new Transcript("test2");
+    const otherMessage = new Transcript("test");
+    base.absorb(Field(1));
+    otherLabel.absorb(Field(1));
+    otherMessage.absorb(Field(2));
+    const challenge = base.squeeze();
+    expect(challenge).not.toEqual(otherLabel.squeeze());
+    expect(challenge).not.toEqual(otherMessage.squeeze());
+    // successive squeezes return fresh challenges
+    expect(challenge).not.toEqual(base.squeeze());
+  });
+});
+
+describe("Non-interactive sum check", () => {
+  it("should produce a proof that verifies without interaction", () => {
+    const { claim, proof } = proveSumCheck(g, v);
+    expect(claim).toEqual(Field(31));
+    expect(proof.roundPolynomials.length).toBe(v);
+    expect(proof.degree).toBe(1);
+    expect(proof.commitment).toEqual(commitToPolynomial(g));
+    const { r, finalEvaluation } = verifySumCheckProof(proof, claim, oracle);
+    expect(r.length).toBe(v);
+    expect(finalEvaluation).toEqual(oracle(r));
+    // the verifier can also recompute the commitment from the evaluations of g
+    expect(verifySumCheckProof(proof, claim, g)).toEqual({
+      r,
+      finalEvaluation,
+    });
+  });
+
+  it("should be deterministic", () => {
+    expect(proveSumCheck(g, v)).toEqual(proveSumCheck(g, v));
+  });
+
+  it("should prove the sum of a product of multilinear polynomials", () => {
+    const f = [2, 7, 1, 8, 2, 8, 1, 8].map(Field);
+    const { claim, proof } = proveSumCheck([g, f], v);
+    expect(proof.degree).toBe(2);
+    expect(proof.roundPolynomials.every((g_j) => g_j.length === 3)).toBe(true);
+    const product = (x: Field[]) =>
+      getMultilinearLDE(g, x).mul(getMultilinearLDE(f, x));
+    expect(() => verifySumCheckProof(proof, claim, product)).not.toThrow();
+    expect(() => verifySumCheckProof(proof, claim, [g, f])).not.toThrow();
+    // the round polynomials must respect the degree bound of the proof
+    expect(() =>
+      verifySumCheckProof({ ...proof, degree: 1 }, claim, product),
+    ).toThrow("Polynomial sent in round 1 has length 3.");
+    // given the factors, the verifier enforces the degree bound of their product
+    expect(() =>
+      verifySumCheckProof({ ...proof, degree: 3 }, claim, [g, f]),
+    ).toThrow(
+      "Proof has degree bound 3, expected 2 for a product of 2 multilinear polynomials.",
+    );
+  });
+
+  it("should reject a proof for a different claim", () => {
+    const { claim, proof } = proveSumCheck(g, v);
+    expect(() => verifySumCheckProof(proof, claim.add(1), oracle)).toThrow(
+      "Polynomial g_1 is incorrect.",
+    );
+  });
+
+  it("should reject a proof with a tampered round polynomial", () => {
+    const { claim, proof } = proveSumCheck(g, v);
+    // shift g_2 while preserving g_2(0) + g_2(1), the change is caught by the transcript and the oracle query
+    const [a, b] = proof.roundPolynomials[1];
+    const tampered = {
+      ...proof,
+      roundPolynomials: [
+        proof.roundPolynomials[0],
+        [a.add(5), b.sub(5)],
+        proof.roundPolynomials[2],
+      ],
+    };
+    expect(() => verifySumCheckProof(tampered, claim, oracle)).toThrow();
+  });
+
+  it("should reject a proof checked against a different polynomial", () => {
+    const { claim, proof } = proveSumCheck(g, v);
+    const other = [3, 1, 4, 1, 5, 9, 6, 2].map(Field);
+    expect(() =>
+      verifySumCheckProof(proof, claim, (x) => getMultilinearLDE(other, x)),
+    ).toThrow("g(r) != g_v(r_v)");
+    expect(() => verifySumCheckProof(proof, claim, other)).toThrow(
+      "Proof is bound to a different polynomial than g.",
+    );
+  });
+
+  it("should reject malformed proofs", () => {
+    const { claim, proof } = proveSumCheck(g, v);
+    expect(() =>
+      verifySumCheckProof(
+        { ...proof, roundPolynomials: proof.roundPolynomials.slice(1) },
+        claim,
+        oracle,
+      ),
+    ).toThrow(
+      "Expected 3 round polynomials for a 3-variate polynomial, got 2.",
+    );
+    expect(() =>
+      verifySumCheckProof(
+        { ...proof, v: 0, roundPolynomials: [] },
+        claim,
+        oracle,
+      ),
+    ).toThrow("Number of variables must be a positive integer, got 0.");
+    expect(() =>
+      verifySumCheckProof({ ...proof, degree: 0 }, claim, oracle),
+    ).toThrow("Degree bound must be a positive integer, got 0.");
+  });
+
+  it("should commit to every factor of g", () => {
+    const f = [2, 7, 1, 8, 2, 8, 1, 8].map(Field);
+    expect(commitToPolynomial(g)).toEqual(commitToPolynomial([g]));
+    expect(commitToPolynomial([g, f])).not.toEqual(commitToPolynomial([f, g]));
+    expect(proveSumCheck([g, f], v).proof.commitment).toEqual(
+      commitToPolynomial([g, f]),
+    );
+  });
+
+  it("should reject a polynomial chosen after the challenges", () => {
+    const { proof } = proveSumCheck(g, v);
+    const falseClaim = Field(32);
+    // answer every round with g_j(0) = g_{j-1}(r_{j-1}) and g_j(1) = 0, which passes every round check
+    const transcript = getSumCheckTranscript(
+      v,
+      1,
+      proof.commitment,
+      falseClaim,
+    );
+    const roundPolynomials: Field[][] = [];
+    const r: Field[] = [];
+    let expected = falseClaim;
+    for (let j = 1; j <= v; j++) {
+      roundPolynomials.push([expected, Field(0)]);
+      transcript.absorb(Field(2), expected, Field(0));
+      r.push(transcript.squeeze());
+      expected = expected.mul(Field(1).sub(r[j - 1]));
+    }
+
+    // change g(0, 0, 0) so that the multilinear extension of the forged table agrees with g_v(r_v) at r
+    const forged = [...g];
+    const chi = r.reduce(
+      (product, r_i) => product.mul(Field(1).sub(r_i)),
+      Field(1),
+    );
+    forged[0] = g[0].add(expected.sub(oracle(r)).div(chi));
+    expect(getMultilinearLDE(forged, r)).toEqual(expected);
+
+    // the proof is bound to the commitment to g, not to the forged table
+    expect(() =>
+      verifySumCheckProof({ ...proof, roundPolynomials }, falseClaim, forged),
+    ).toThrow("Proof is bound to a different polynomial than g.");
+    // rebinding it to the forged table changes the challenges
+    expect(() =>
+      verifySumCheckProof(
+        {
+          ...proof,
+          commitment: commitToPolynomial(forged),
+          roundPolynomials,
+        },
+        falseClaim,
+        forged,
+      ),
+    ).toThrow("Polynomial g_2 is incorrect.");
+  });
+});
@@ -0,0 +1,76 @@
+import { Field } from "o1js";
+import { LinearTimeProver } from "../../lib/sum-check/linear-time-prover.ts";
+import { Prover } from "../../lib/sum-check/sum-check-prover.ts";
+import { OracleProver } from "../../lib/sum-check/oracle-sum-check.ts";
+import { getMultilinearLDE } from "../../lib/sum-check/multilinear-lagrange.ts";
+
+const challenges = [Field(17), Field(123456789), Field(Field.ORDER - 5n)];
+
+describe("Linear time sum check prover", () => {
+  it("should produce the same transcript as Prover for a multilinear g", () => {
+    const v = 3;
+    const g = [3, 1, 4, 1, 5, 9, 2, 6].map(Field);
+    const prover = new Prover(g, v);
+    const linearTimeProver = new LinearTimeProver(g, v);
+
+    expect(linearTimeProver.getProposedSum()).toEqual(prover.getProposedSum());
+    for (let j = 1; j <= v; j++) {
+      const r_prev = j === 1 ? undefined : challenges[j - 2];
+      expect(linearTimeProver.getRoundJPolynomial(r_prev)).toEqual(
+        prover.getRoundJPolynomial(r_prev),
+      );
+    }
+  });
+
+  it("should pad g with zeroes when fewer than 2^v evaluations are supplied", () => {
+    const prover = new LinearTimeProver([Field(2), Field(3), Field(5)], 2);
+    expect(prover.factors[0]).toEqual([Field(2), Field(3), Field(5), Field(0)]);
+    expect(prover.getProposedSum()).toEqual(Field(10));
+  });
+
+  it("should prove the sum of a product of multilinear polynomials", () => {
+    const v = 3;
+    const factors = [
+      [3, 1, 4, 1, 5, 9, 2, 6],
+      [2, 7, 1, 8, 2, 8, 1, 8],
+      [1, 4, 1, 4, 2, 1, 3, 5],
+    ].map((f) => f.map(Field));
+    const linearTimeProver = new LinearTimeProver(factors, v);
+    // g(x) = f_1(x) · f_2(x) · f_3(x) evaluated through the multilinear extension of each factor
+    const oracleProver = new OracleProver(
+      (x) =>
+        factors.reduce(
+          (product, f) => product.mul(getMultilinearLDE(f, x)),
+          Field(1),
+        ),
+      [3, 3, 3],
+    );
+
+    expect(linearTimeProver.getProposedSum()).toEqual(
+      oracleProver.getProposedSum(),
+    );
+    for (let j = 1; j <= v; j++) {
+      const r_prev = j === 1 ? undefined : challenges[j - 2];
+      const g_j = linearTimeProver.getRoundJPolynomial(r_prev);
+      // deg_j(g) = k = 3 so the prover sends 4 evaluations
+      expect(g_j.length).toBe(4);
+      expect(g_j).toEqual(oracleProver.getRoundJPolynomial(r_prev));
+    }
+  });
+
+  it("should throw on invalid inputs and round counts", () => {
+    expect(
+      () => new LinearTimeProver([Field(1), Field(2), Field(3)], 1),
+    ).toThrow(
+      "Factor 1 of g has 3 evaluations, it should have at most 2, corresponding to a 1-variate function.",
+    );
+    const prover = new LinearTimeProver([Field(1), Field(2)], 1);
+    expect(() => prover.getRoundJPolynomial(Field(1))).toThrow(
+      "Prover received unexpected r value 1 during round 1 of the sum check protocol.",
+    );
+    prover.getRoundJPolynomial();
+    expect(() => prover.getRoundJPolynomial(Field(1))).toThrow(
+      "Cannot fix more than 1 values in the 1-dimensional vector r",
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { Field } from "o1js";
+import {
+  getLowDegreeExtension,
+  memoizedLowDegreeBasis,
+} from "../../lib/sum-check/low-degree-extension.ts";
+import { getMultilinearLDE } from "../../lib/sum-check/multilinear-lagrange.ts";
+import { getUnivariateLDE } from "../../lib/sum-check/univariate-lagrange.ts";
+import { memoizedLagrangeBasis } from "../../lib/message-extensions/fast-multilinear-lagrange.ts";
+
+const values = [3, 1, 4, 1, 5, 9, 2, 6].map((e) => Field(e));
+const r = [Field(17), Field(-4), Field(1000)];
+
+describe("Low degree extensions over H^m", () => {
+  it("should agree with the multilinear extension for h = 2", () => {
+    expect(getLowDegreeExtension(values, 2, 3, r)).toEqual(
+      getMultilinearLDE(values, r),
+    );
+    expect(memoizedLowDegreeBasis(r, 2)).toEqual(memoizedLagrangeBasis(r));
+  });
+
+  it("should agree with the univariate extension for m = 1", () => {
+    expect(getLowDegreeExtension(values, 8, 1, [r[0]])).toEqual(
+      getUnivariateLDE(values, r[0]),
+    );
+  });
+
+  it("should interpolate f on H^m", () => {
+    // h = 3, m = 2: index 3a + b holds f(a, b), the last entry is padded with zero
+    for (let a = 0; a < 3; a++)
+      for (let b = 0; b < 3; b++)
+        expect(
+          getLowDegreeExtension(values, 3, 2, [Field(a), Field(b)]),
+        ).toEqual(values[3 * a + b] ?? Field(0));
+  });
+
+  it("should have degree less than h in each variable", () => {
+    // the restriction x -> f~(x, r_1) is determined by its values on H
+    const restriction = [0, 1, 2].map((a) =>
+      getLowDegreeExtension(values, 3, 2, [Field(a), r[1]]),
+    );
+    expect(getUnivariateLDE(restriction, r[0])).toEqual(
+      getLowDegreeExtension(values, 3, 2, r.slice(0, 2)),
+    );
+  });
+
+  it("should build a basis that sums to 1", () => {
+    const basis = memoizedLowDegreeBasis(r, 4);
+    expect(basis.length).toBe(64);
+    expect(basis.reduce((sum, e) => sum.add(e), Field(0))).toEqual(Field(1));
+  });
+
+  it("should reject invalid grids and inputs", () => {
+    expect(() => getLowDegreeExtension(values, 1, 3, r)).toThrow(
+      "Size of H must be an integer of at least 2, received 1.",
+    );
+    expect(() => getLowDegreeExtension(values, 2, 2, r.slice(0, 2))).toThrow(
+      "Received 8 values, a function on H^2 with |H| = 2 has at most 4.",
+    );
+    expect(() => getLowDegreeExtension(values, 3, 2, r)).toThrow(
+      "Incorrect input vector length, expected 2 variables but received 3",
+    );
+    expect(() => getLowDegreeExtension([], 3, 2, r)).toThrow(
+      "The 'values' array cannot be empty.",
+    );
+  });
+});
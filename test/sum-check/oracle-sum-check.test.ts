@@ -0,0 +1,111 @@
+import { Field } from "o1js";
+import {
+  OracleProver,
+  OracleVerifier,
+  PolynomialOracle,
+} from "../../lib/sum-check/oracle-sum-check.ts";
+
+// g(x_1, x_2, x_3) = 2 x_1^3 x_2 + x_2^2 x_3 + 5 x_1 x_3^2 + 7
+const g: PolynomialOracle = ([x1, x2, x3]) =>
+  Field(2)
+    .mul(x1.mul(x1).mul(x1).mul(x2))
+    .add(x2.mul(x2).mul(x3))
+    .add(Field(5).mul(x1).mul(x3).mul(x3))
+    .add(7);
+const degrees = [3, 2, 2];
+
+/**
+ * Runs the full protocol between the prover and verifier for the oracle g
+ */
+function runProtocol(
+  prover: OracleProver,
+  verifier: OracleVerifier,
+  oracle: PolynomialOracle,
+) {
+  let r_j = undefined;
+  for (let j = 1; j <= prover.v; j++) {
+    const g_j = prover.getRoundJPolynomial(r_j);
+    r_j = verifier.verifyRoundJPolynomial(g_j);
+  }
+  verifier.verifyOracleQueryOfG(oracle);
+}
+
+describe("Sum check for polynomials of arbitrary individual degree", () => {
+  it("should compute the sum of g over the boolean hypercube", () => {
+    let expected = Field(0);
+    for (let i = 0; i < 8; i++) {
+      expected = expected.add(
+        g([Field((i >> 2) & 1), Field((i >> 1) & 1), Field(i & 1)]),
+      );
+    }
+    expect(new OracleProver(g, degrees).getProposedSum()).toEqual(expected);
+    expect(expected).toEqual(Field(2 * 2 + 2 * 1 + 5 * 2 + 7 * 8));
+  });
+
+  it("should send deg_j(g) + 1 evaluations in each round", () => {
+    const prover = new OracleProver(g, degrees);
+    const verifier = new OracleVerifier(prover.getProposedSum(), degrees);
+    let r_j = undefined;
+    for (let j = 1; j <= 3; j++) {
+      const g_j = prover.getRoundJPolynomial(r_j);
+      expect(g_j.length).toBe(degrees[j - 1] + 1);
+      r_j = verifier.verifyRoundJPolynomial(g_j);
+    }
+    verifier.verifyOracleQueryOfG(g);
+  });
+
+  it("should accept an honest prover for a multilinear polynomial", () => {
+    const h: PolynomialOracle = ([x1, x2]) => x1.mul(x2).add(x1).add(3);
+    const prover = new OracleProver(h, [1, 1]);
+    const verifier = new OracleVerifier(prover.getProposedSum(), [1, 1]);
+    expect(() => runProtocol(prover, verifier, h)).not.toThrow();
+  });
+
+  it("should reject an incorrect proposed sum", () => {
+    const prover = new OracleProver(g, degrees);
+    const verifier = new OracleVerifier(
+      prover.getProposedSum().add(1),
+      degrees,
+    );
+    expect(() => runProtocol(prover, verifier, g)).toThrow(
+      "Polynomial g_1 is incorrect.",
+    );
+  });
+
+  it("should reject round polynomials exceeding the degree bound", () => {
+    const prover = new OracleProver(g, [3, 2, 2]);
+    const verifier = new OracleVerifier(prover.getProposedSum(), [2, 2, 2]);
+    expect(() =>
+      verifier.verifyRoundJPolynomial(prover.getRoundJPolynomial()),
+    ).toThrow(
+      "Polynomial sent in round 1 has length 4. Expected length to be between 1 and 3 since deg_1(g) <= 2.",
+    );
+  });
+
+  it("should reject when the oracle does not match the prover's polynomial", () => {
+    const prover = new OracleProver(g, degrees);
+    const verifier = new OracleVerifier(prover.getProposedSum(), degrees);
+    const other: PolynomialOracle = (x) => g(x).add(x[0].mul(x[1]));
+    expect(() => runProtocol(prover, verifier, other)).toThrow(
+      "g(r) != g_v(r_v)",
+    );
+  });
+
+  it("should throw on invalid degree bounds and round counts", () => {
+    expect(() => new OracleProver(g, [])).toThrow(
+      "The polynomial g must have at least one variable.",
+    );
+    expect(() => new OracleVerifier(Field(0), [1, -1])).toThrow(
+      "Degree bound for variable 2 must be a non-negative integer, received -1.",
+    );
+    const prover = new OracleProver(g, degrees);
+    prover.getRoundJPolynomial();
+    expect(() => prover.getRoundJPolynomial()).toThrow(
+      "Round 2 requires the 1 entries in r to be fixed.",
+    );
+    const verifier = new OracleVerifier(Field(0), [1]);
+    expect(() => verifier.verifyOracleQueryOfG(g)).toThrow(
+      "1 rounds are required to fix all 1 variables of r.",
+    );
+  });
+});
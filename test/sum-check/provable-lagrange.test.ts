@@ -0,0 +1,93 @@
+import { Field, Provable } from "o1js";
+import {
+  countExtensionConstraints,
+  getProvableMemoizedMultilinearLagrange,
+  getProvableMultilinearLDE,
+} from "../../lib/sum-check/provable-lagrange.ts";
+import { getMultilinearLDE } from "../../lib/sum-check/multilinear-lagrange.ts";
+import {
+  getProvableUnivariateLDE,
+  getUnivariateLDE,
+} from "../../lib/sum-check/univariate-lagrange.ts";
+import { getMemoizedMultilinearLagrange } from "../../lib/message-extensions/fast-multilinear-lagrange.ts";
+
+const values = [3, 1, 4, 1, 5, 9, 2].map((e) => Field(e));
+const points = [
+  [Field(17), Field(-4), Field(1000)],
+  // a vertex of the hypercube, where the out-of-circuit evaluators may take shortcuts
+  [Field(1), Field(0), Field(1)],
+];
+
+describe("Provable extension evaluators", () => {
+  it("should agree with the out-of-circuit evaluators", () => {
+    for (const r of points) {
+      const expected = getMultilinearLDE(values, r);
+      expect(getProvableMultilinearLDE(values, r)).toEqual(expected);
+      expect(getProvableMemoizedMultilinearLagrange(values, r)).toEqual(
+        expected,
+      );
+      expect(getMemoizedMultilinearLagrange(values, r)).toEqual(expected);
+    }
+    for (const r of [Field(2), Field(6), Field(123)])
+      expect(getProvableUnivariateLDE(values, r)).toEqual(
+        getUnivariateLDE(values, r),
+      );
+  });
+
+  it("should agree with the out-of-circuit evaluators inside a circuit", async () => {
+    for (const [r, x] of [
+      [points[0], Field(123)],
+      [points[1], Field(4)],
+    ] as const) {
+      await Provable.runAndCheck(() => {
+        const witnessValues = Provable.witness(
+          Provable.Array(Field, values.length),
+          () => values,
+        );
+        const witnessR = Provable.witness(Provable.Array(Field, 3), () => r);
+        const witnessX = Provable.witness(Field, () => x);
+
+        getProvableMultilinearLDE(witnessValues, witnessR).assertEquals(
+          getMultilinearLDE(values, r),
+        );
+        getProvableMemoizedMultilinearLagrange(
+          witnessValues,
+          witnessR,
+        ).assertEquals(getMultilinearLDE(values, r));
+        getProvableUnivariateLDE(witnessValues, witnessX).assertEquals(
+          getUnivariateLDE(values, x),
+        );
+      });
+    }
+  });
+
+  it("should reject invalid inputs", () => {
+    expect(() => getProvableMultilinearLDE([], [])).toThrow(
+      "The 'values' array cannot be empty.",
+    );
+    expect(() => getProvableMultilinearLDE(values, points[0].slice(1))).toThrow(
+      "Incorrect input vector length, expected 3 variables but received 2",
+    );
+    expect(() =>
+      getProvableMemoizedMultilinearLagrange(values, points[0].slice(1)),
+    ).toThrow(
+      "Input vector 'r' must have length 3, corresponding to the hypercube dimension.",
+    );
+    expect(() => getProvableUnivariateLDE([], Field(1))).toThrow(
+      "The 'values' array cannot be empty.",
+    );
+  });
+
+  it("should count the constraints for each input size", async () => {
+    const counts = [];
+    for (const n of [2, 4, 8, 16, 64])
+      counts.push(await countExtensionConstraints(n));
+    expect(counts).toEqual([
+      { n: 2, multilinear: 1, memoized: 2, univariate: 3 },
+      { n: 4, multilinear: 4, memoized: 6, univariate: 9 },
+      { n: 8, multilinear: 11, memoized: 14, univariate: 21 },
+      { n: 16, multilinear: 26, memoized: 30, univariate: 45 },
+      { n: 64, multilinear: 120, memoized: 126, univariate: 189 },
+    ]);
+  });
+});
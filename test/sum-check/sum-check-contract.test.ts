@@ -0,0 +1,161 @@
+import { AccountUpdate, Field, Mina, PrivateKey, Signature } from "o1js";
+import {
+  commitToPolynomial,
+  getSumCheckTranscript,
+  proveSumCheck,
+} from "../../lib/sum-check/fiat-shamir.ts";
+import { getMultilinearLDE } from "../../lib/sum-check/multilinear-lagrange.ts";
+import { createSumCheckContract } from "../../lib/sum-check/sum-check-contract.ts";
+
+const v = 3;
+const g = [3, 1, 4, 1, 5, 9, 2, 6].map((e) => Field(e));
+const { claim, proof } = proveSumCheck(g, v);
+const { SumCheckContract, RoundPolynomials, Evaluations } =
+  createSumCheckContract(v);
+
+const rounds = (roundPolynomials: Field[][]) =>
+  new RoundPolynomials({ values: roundPolynomials });
+const table = (evaluations: Field[]) =>
+  new Evaluations({ values: evaluations });
+const sign = (key: PrivateKey, commitment: Field) =>
+  Signature.create(key, [commitment]);
+
+describe("Sum check contract", () => {
+  let Local: Awaited<ReturnType<typeof Mina.LocalBlockchain>>;
+
+  const send = async (action: () => Promise<void>) => {
+    const [sender] = Local.testAccounts;
+    const tx = await Mina.transaction(sender, action);
+    await tx.prove();
+    await tx.sign([sender.key]).send();
+  };
+
+  const deploy = async () => {
+    const [deployer] = Local.testAccounts;
+    const zkAppKey = PrivateKey.random();
+    const zkApp = new SumCheckContract(zkAppKey.toPublicKey());
+    const tx = await Mina.transaction(deployer, async () => {
+      AccountUpdate.fundNewAccount(deployer);
+      await zkApp.deploy();
+    });
+    await tx.prove();
+    await tx.sign([deployer.key, zkAppKey]).send();
+    return { zkApp, zkAppKey };
+  };
+
+  let zkApp: InstanceType<typeof SumCheckContract>;
+  let zkAppKey: PrivateKey;
+
+  beforeAll(async () => {
+    Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+    Mina.setActiveInstance(Local);
+    ({ zkApp, zkAppKey } = await deploy());
+    const commitment = commitToPolynomial(g);
+    await send(() => zkApp.commit(commitment, sign(zkAppKey, commitment)));
+  }, 600000);
+
+  it("should store the commitment to g", async () => {
+    expect(zkApp.commitment.get()).toEqual(commitToPolynomial(g));
+    expect(zkApp.verifiedSum.get()).toEqual(Field(0));
+    // the commitment cannot be replaced
+    await expect(
+      send(() => zkApp.commit(Field(1), sign(zkAppKey, Field(1)))),
+    ).rejects.toThrow("Polynomial g is already committed.");
+  });
+
+  it("should only let the deployer commit to g", async () => {
+    const { zkApp, zkAppKey } = await deploy();
+    await expect(
+      send(() => zkApp.commit(Field(1), sign(PrivateKey.random(), Field(1)))),
+    ).rejects.toThrow("Commitment is not signed by the deployer.");
+    // a signature is only valid for the commitment it was made for
+    await expect(
+      send(() => zkApp.commit(Field(2), sign(zkAppKey, Field(1)))),
+    ).rejects.toThrow("Commitment is not signed by the deployer.");
+    expect(zkApp.commitment.get()).toEqual(Field(0));
+  }, 600000);
+
+  it("should reject a zero commitment", async () => {
+    const { zkApp, zkAppKey } = await deploy();
+    await expect(
+      send(() => zkApp.commit(Field(0), sign(zkAppKey, Field(0)))),
+    ).rejects.toThrow("Commitment to g cannot be zero.");
+  }, 600000);
+
+  it("should reject a tampered proof", async () => {
+    const tampered = proof.roundPolynomials.map((g_j) => [...g_j]);
+    tampered[0][0] = tampered[0][0].add(1);
+    await expect(
+      send(() => zkApp.verifySum(claim, rounds(tampered), table(g))),
+    ).rejects.toThrow("Polynomial g_1 is incorrect");
+    // g_1 is consistent with the false claim, but g_1(r_1) no longer matches g_2
+    await expect(
+      send(() => zkApp.verifySum(claim.add(1), rounds(tampered), table(g))),
+    ).rejects.toThrow("Polynomial g_2 is incorrect.");
+
+    // a proof for a different polynomial with the same sum is bound to that polynomial's commitment
+    const other = [6, 1, 4, 1, 5, 9, 2, 3].map((e) => Field(e));
+    await expect(
+      send(() =>
+        zkApp.verifySum(
+          claim,
+          rounds(proveSumCheck(other, v).proof.roundPolynomials),
+          table(g),
+        ),
+      ),
+    ).rejects.toThrow("Polynomial g_2 is incorrect.");
+    await expect(
+      send(() =>
+        zkApp.verifySum(claim, rounds(proof.roundPolynomials), table(other)),
+      ),
+    ).rejects.toThrow("Evaluations do not match the commitment to g.");
+    expect(zkApp.verifiedSum.get()).toEqual(Field(0));
+  }, 600000);
+
+  it("should reject a proof computed before g was committed", async () => {
+    const { zkApp, zkAppKey } = await deploy();
+    const falseClaim = Field(32);
+    // answer every round with g_j(0) = g_{j-1}(r_{j-1}) and g_j(1) = 0, using the challenges for the empty commitment
+    const transcript = getSumCheckTranscript(v, 1, Field(0), falseClaim);
+    const roundPolynomials: Field[][] = [];
+    const r: Field[] = [];
+    let expected = falseClaim;
+    for (let j = 1; j <= v; j++) {
+      roundPolynomials.push([expected, Field(0)]);
+      transcript.absorb(Field(2), expected, Field(0));
+      r.push(transcript.squeeze());
+      expected = expected.mul(Field(1).sub(r[j - 1]));
+    }
+
+    // then commit to a g whose multilinear extension agrees with g_v(r_v) at r
+    const forged = [...g];
+    const chi = r.reduce(
+      (product, r_i) => product.mul(Field(1).sub(r_i)),
+      Field(1),
+    );
+    forged[0] = g[0].add(expected.sub(getMultilinearLDE(g, r)).div(chi));
+    expect(getMultilinearLDE(forged, r)).toEqual(expected);
+    const commitment = commitToPolynomial(forged);
+    await send(() => zkApp.commit(commitment, sign(zkAppKey, commitment)));
+
+    await expect(
+      send(() =>
+        zkApp.verifySum(falseClaim, rounds(roundPolynomials), table(forged)),
+      ),
+    ).rejects.toThrow("Polynomial g_2 is incorrect.");
+    expect(zkApp.verifiedSum.get()).toEqual(Field(0));
+  }, 600000);
+
+  it("should record the sum of g after verifying its proof", async () => {
+    await send(() =>
+      zkApp.verifySum(claim, rounds(proof.roundPolynomials), table(g)),
+    );
+    expect(zkApp.verifiedSum.get()).toEqual(Field(31));
+  }, 600000);
+
+  it("should fit the verifier into a single circuit", async () => {
+    const { verifySum } = await SumCheckContract.analyzeMethods();
+    expect(verifySum.rows).toBeGreaterThan(0);
+    expect(verifySum.rows).toBeLessThan(2 ** 16);
+  });
+});
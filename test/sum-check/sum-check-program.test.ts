@@ -0,0 +1,114 @@
+import { Field, verify } from "o1js";
+import {
+  proveSumCheck,
+  verifySumCheckProof,
+} from "../../lib/sum-check/fiat-shamir.ts";
+import {
+  createSumCheckProgram,
+  SumCheckStatement,
+  verifySumCheckRounds,
+} from "../../lib/sum-check/sum-check-program.ts";
+import {
+  getProvableUnivariateLDE,
+  getUnivariateLDE,
+} from "../../lib/sum-check/univariate-lagrange.ts";
+import { getMultilinearLDE } from "../../lib/sum-check/multilinear-lagrange.ts";
+
+const v = 3;
+const g = [3, 1, 4, 1, 5, 9, 2, 6].map((e) => Field(e));
+const oracle = (x: Field[]) => getMultilinearLDE(g, x);
+const { claim, proof } = proveSumCheck(g, v);
+const { commitment } = proof;
+const statement = new SumCheckStatement({ claim, commitment });
+
+describe("Provable univariate extension", () => {
+  it("should agree with getUnivariateLDE on and off the nodes", () => {
+    const values = [5, 3, 8, 1].map((e) => Field(e));
+    for (const r of [0, 2, 3, 17, -4])
+      expect(getProvableUnivariateLDE(values, Field(r))).toEqual(
+        getUnivariateLDE(values, Field(r)),
+      );
+  });
+});
+
+describe("Sum check rounds with constraints", () => {
+  it("should derive the same challenges as verifySumCheckProof", () => {
+    expect(
+      verifySumCheckRounds(claim, commitment, proof.roundPolynomials, 1),
+    ).toEqual(verifySumCheckProof(proof, claim, oracle));
+  });
+
+  it("should reject a wrong claim or a short round polynomial", () => {
+    expect(() =>
+      verifySumCheckRounds(claim.add(1), commitment, proof.roundPolynomials, 1),
+    ).toThrow("Polynomial g_1 is incorrect.");
+    expect(() =>
+      verifySumCheckRounds(
+        claim,
+        commitment,
+        [[claim], ...proof.roundPolynomials],
+        1,
+      ),
+    ).toThrow(
+      "Polynomial sent in round 1 has length 1. Expected length 2 for degree 1.",
+    );
+  });
+
+  it("should derive different challenges for a different commitment", () => {
+    // round 1 does not depend on the challenges, round 2 is checked at a different r_1
+    expect(() =>
+      verifySumCheckRounds(claim, commitment.add(1), proof.roundPolynomials, 1),
+    ).toThrow("Polynomial g_2 is incorrect.");
+  });
+});
+
+describe("Sum check ZkProgram", () => {
+  const { program, SumCheckProgramProof } = createSumCheckProgram(v, 1);
+
+  let verificationKey: Awaited<
+    ReturnType<typeof program.compile>
+  >["verificationKey"];
+
+  beforeAll(async () => {
+    ({ verificationKey } = await program.compile());
+  }, 600000);
+
+  it("should prove a valid transcript", async () => {
+    const zkProof = await program.verify(statement, proof.roundPolynomials);
+    expect(zkProof.publicInput).toEqual(statement);
+    expect(await verify(zkProof, verificationKey)).toBe(true);
+    // the proof can be sent as JSON to a recursive verifier
+    const restored = await SumCheckProgramProof.fromJSON(zkProof.toJSON());
+    expect(restored.publicOutput).toEqual(zkProof.publicOutput);
+
+    // the caller completes the verification with the oracle query
+    const { r, finalEvaluation } = zkProof.publicOutput;
+    expect(oracle(r)).toEqual(finalEvaluation);
+    expect({ r, finalEvaluation }).toEqual(
+      verifySumCheckProof(proof, claim, oracle),
+    );
+  }, 600000);
+
+  it("should fail to prove a tampered transcript", async () => {
+    const tampered = proof.roundPolynomials.map((g_j) => [...g_j]);
+    // keep g_2(0) + g_2(1) but change g_2, so the round 3 check fails
+    tampered[1][0] = tampered[1][0].add(1);
+    tampered[1][1] = tampered[1][1].sub(1);
+    await expect(program.verify(statement, tampered)).rejects.toThrow(
+      "Polynomial g_3 is incorrect.",
+    );
+    await expect(
+      program.verify(
+        new SumCheckStatement({ claim: claim.add(1), commitment }),
+        proof.roundPolynomials,
+      ),
+    ).rejects.toThrow("Polynomial g_1 is incorrect.");
+    // the commitment is part of the public input, a proof for g does not verify against another polynomial
+    await expect(
+      program.verify(
+        new SumCheckStatement({ claim, commitment: commitment.add(1) }),
+        proof.roundPolynomials,
+      ),
+    ).rejects.toThrow("Polynomial g_2 is incorrect.");
+  }, 600000);
+});
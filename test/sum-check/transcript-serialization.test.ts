@@ -0,0 +1,177 @@
+import { Field } from "o1js";
+import {
+  proveSumCheck,
+  verifySumCheckProof,
+} from "../../lib/sum-check/fiat-shamir.ts";
+import {
+  getTranscriptOfProof,
+  transcriptFromBytes,
+  transcriptFromJSON,
+  transcriptToBytes,
+  transcriptToJSON,
+  verifySumCheckTranscript,
+} from "../../lib/sum-check/transcript-serialization.ts";
+import { getMultilinearLDE } from "../../lib/sum-check/multilinear-lagrange.ts";
+
+const v = 3;
+const g = [3, 1, 4, 1, 5, 9, 2, 6].map(Field);
+const f = [2, 7, 1, 8, 2, 8, 1, 8].map(Field);
+const oracle = (x: Field[]) => getMultilinearLDE(g, x);
+const product = (x: Field[]) => oracle(x).mul(getMultilinearLDE(f, x));
+
+describe("Sum check transcript serialization", () => {
+  const { claim, proof } = proveSumCheck(g, v);
+  const transcript = getTranscriptOfProof(proof, claim);
+
+  it("should record the challenges and final evaluation derived by the verifier", () => {
+    const { r, finalEvaluation } = verifySumCheckProof(proof, claim, oracle);
+    expect(transcript.challenges).toEqual(r);
+    expect(transcript.finalEvaluation).toEqual(finalEvaluation);
+    expect(transcript.claimedSum).toEqual(claim);
+    expect(transcript.commitment).toEqual(proof.commitment);
+  });
+
+  it("should round trip through JSON and verify exactly like the live transcript", () => {
+    const json = transcriptToJSON(transcript);
+    const parsed = transcriptFromJSON(json);
+    expect(parsed).toEqual(transcript);
+    expect(transcriptToJSON(parsed)).toBe(json);
+    expect(verifySumCheckTranscript(parsed, oracle)).toEqual(
+      verifySumCheckTranscript(transcript, oracle),
+    );
+  });
+
+  it("should round trip through the binary encoding and verify exactly like the live transcript", () => {
+    const bytes = transcriptToBytes(transcript);
+    // header + 3 rounds of (count + 2 evaluations + challenge) + claimed sum, commitment and final evaluation
+    expect(bytes.length).toBe(12 + 3 * (4 + 3 * 32) + 3 * 32);
+    const parsed = transcriptFromBytes(bytes);
+    expect(parsed).toEqual(transcript);
+    expect(verifySumCheckTranscript(parsed, oracle)).toEqual(
+      verifySumCheckTranscript(transcript, oracle),
+    );
+  });
+
+  it("should round trip transcripts for products of multilinear polynomials", () => {
+    const { claim, proof } = proveSumCheck([g, f], v);
+    const transcript = getTranscriptOfProof(proof, claim);
+    expect(transcript.degree).toBe(2);
+    const parsed = transcriptFromBytes(transcriptToBytes(transcript));
+    expect(transcriptFromJSON(transcriptToJSON(transcript))).toEqual(parsed);
+    expect(() => verifySumCheckTranscript(parsed, product)).not.toThrow();
+    expect(() => verifySumCheckTranscript(parsed, [g, f])).not.toThrow();
+    expect(() => verifySumCheckTranscript(parsed, g)).toThrow(
+      "Proof has degree bound 2, expected 1 for a product of 1 multilinear polynomials.",
+    );
+  });
+
+  it("should reject deserialized transcripts that were tampered with", () => {
+    const object = JSON.parse(transcriptToJSON(transcript));
+    object.rounds[1].challenge = "12345";
+    expect(() =>
+      verifySumCheckTranscript(
+        transcriptFromJSON(JSON.stringify(object)),
+        oracle,
+      ),
+    ).toThrow(
+      "Challenge r_2 does not match the challenge derived from the transcript.",
+    );
+
+    const wrongFinal = JSON.parse(transcriptToJSON(transcript));
+    wrongFinal.finalEvaluation = "7";
+    expect(() =>
+      verifySumCheckTranscript(
+        transcriptFromJSON(JSON.stringify(wrongFinal)),
+        oracle,
+      ),
+    ).toThrow("Final evaluation does not match g_v(r_v).");
+
+    const wrongCommitment = JSON.parse(transcriptToJSON(transcript));
+    wrongCommitment.commitment = "7";
+    const rebound = transcriptFromJSON(JSON.stringify(wrongCommitment));
+    expect(() => verifySumCheckTranscript(rebound, g)).toThrow(
+      "Proof is bound to a different polynomial than g.",
+    );
+    expect(() => verifySumCheckTranscript(rebound, oracle)).toThrow(
+      "Polynomial g_2 is incorrect.",
+    );
+  });
+
+  it("should reject malformed JSON transcripts", () => {
+    const valid = JSON.parse(transcriptToJSON(transcript));
+    const withChanges = (changes: object) =>
+      JSON.stringify({ ...valid, ...changes });
+
+    expect(() => transcriptFromJSON("{")).toThrow(
+      "Invalid transcript: not valid JSON.",
+    );
+    expect(() => transcriptFromJSON(withChanges({ version: 2 }))).toThrow(
+      "Invalid transcript: unsupported version 2, expected 1.",
+    );
+    expect(() => transcriptFromJSON(withChanges({ extra: 1 }))).toThrow(
+      "Invalid transcript: transcript has unexpected properties extra.",
+    );
+    expect(() => transcriptFromJSON(withChanges({ v: 2 }))).toThrow(
+      "Invalid transcript: expected 2 rounds.",
+    );
+    expect(() => transcriptFromJSON(withChanges({ v: 1.5 }))).toThrow(
+      "Invalid transcript: v must be a positive integer, got 1.5.",
+    );
+    expect(() => transcriptFromJSON(withChanges({ claimedSum: 31 }))).toThrow(
+      "Invalid transcript: claimedSum must be a decimal string, got 31.",
+    );
+    expect(() =>
+      transcriptFromJSON(withChanges({ claimedSum: "031" })),
+    ).toThrow(
+      'Invalid transcript: claimedSum must be a decimal string, got "031".',
+    );
+    expect(() => transcriptFromJSON(withChanges({ claimedSum: "-1" }))).toThrow(
+      "Invalid transcript: claimedSum must be a decimal string",
+    );
+    expect(() =>
+      transcriptFromJSON(
+        withChanges({ finalEvaluation: Field.ORDER.toString() }),
+      ),
+    ).toThrow(
+      "Invalid transcript: finalEvaluation is not a canonical field element.",
+    );
+
+    const tooManyEvaluations = JSON.parse(JSON.stringify(valid));
+    tooManyEvaluations.rounds[0].evaluations.push("1");
+    expect(() =>
+      transcriptFromJSON(JSON.stringify(tooManyEvaluations)),
+    ).toThrow(
+      "Invalid transcript: round 1 has 3 evaluations, expected between 1 and 2.",
+    );
+  });
+
+  it("should reject malformed binary transcripts", () => {
+    const bytes = transcriptToBytes(transcript);
+
+    expect(() => transcriptFromBytes(bytes.slice(0, bytes.length - 1))).toThrow(
+      "Invalid transcript: unexpected end of input.",
+    );
+    expect(() => transcriptFromBytes(new Uint8Array([...bytes, 0]))).toThrow(
+      "Invalid transcript: unexpected trailing bytes.",
+    );
+
+    const wrongMagic = bytes.slice();
+    wrongMagic[0] = 0;
+    expect(() => transcriptFromBytes(wrongMagic)).toThrow(
+      "Invalid transcript: missing magic bytes.",
+    );
+
+    const wrongVersion = bytes.slice();
+    wrongVersion[3] = 9;
+    expect(() => transcriptFromBytes(wrongVersion)).toThrow(
+      "Invalid transcript: unsupported version 9, expected 1.",
+    );
+
+    // claimed sum starts after the 12 byte header, set it to 2^256 - 1 which exceeds the field order
+    const nonCanonical = bytes.slice();
+    nonCanonical.fill(0xff, 12, 44);
+    expect(() => transcriptFromBytes(nonCanonical)).toThrow(
+      "Invalid transcript: claimedSum is not a canonical field element.",
+    );
+  });
+});